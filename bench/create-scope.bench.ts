@@ -16,6 +16,14 @@ class AuthService {
   constructor(private deps: { database: Database; request: Request }) {}
 }
 
+// Large containers register 100 services on the container and 100 on the scope.
+// Scope creation shouldn't get slower as more services are registered.
+const largeServiceCount = 100;
+const largeServiceKeys = Array.from(
+  { length: largeServiceCount },
+  (_, i) => `service${i}`,
+);
+
 export default defineBench({ name: "Create Scope" }, (bench) => {
   const zeroIocContainer = ZeroIoc.createIocContainer().register(
     databaseKey,
@@ -35,6 +43,23 @@ export default defineBench({ name: "Create Scope" }, (bench) => {
     .register(databaseKey, Awilix.asFunction(openDatabase))
     .register(authServiceKey, Awilix.asClass(AuthService));
 
+  const largeZeroIocContainer: ZeroIoc.IocContainer<any> =
+    ZeroIoc.createIocContainer();
+  for (const key of largeServiceKeys) {
+    largeZeroIocContainer.register(key, openDatabase);
+  }
+  const largeZeroIocScope: ZeroIoc.IocScope<{ request: Request }, any> =
+    largeZeroIocContainer.scope();
+  for (const key of largeServiceKeys) {
+    largeZeroIocScope.register(`scoped${key}`, AuthService);
+  }
+
+  const largeAwilixContainer = Awilix.createContainer();
+  for (const key of largeServiceKeys) {
+    largeAwilixContainer.register(key, Awilix.asFunction(openDatabase));
+    largeAwilixContainer.register(`scoped${key}`, Awilix.asClass(AuthService));
+  }
+
   bench
     .add("@aklinker1/zero-ioc", () => {
       zeroIocScope({ request }).resolveAll();
@@ -48,5 +73,16 @@ export default defineBench({ name: "Create Scope" }, (bench) => {
       void classicAwilixContainer
         .createScope()
         .register(requestKey, Awilix.asValue(request)).registrations;
+    })
+    .add("zero-ioc (small)", () => {
+      void zeroIocScope({ request }).registrations;
+    })
+    .add("zero-ioc (large)", () => {
+      void largeZeroIocScope({ request }).registrations;
+    })
+    .add("awilix (large)", () => {
+      void largeAwilixContainer
+        .createScope()
+        .register(requestKey, Awilix.asValue(request)).registrations;
     });
 });
@@ -0,0 +1,110 @@
+import { describe, expect, it, mock } from "bun:test";
+import { createIocContainer, disposable, scoped } from "..";
+import { currentScope, runInScope } from "../async-scope";
+
+describe("Async Scopes", () => {
+  const container = createIocContainer()
+    .register("db", () => ({}))
+    .register(
+      "unitOfWork",
+      scoped(() => ({})),
+    );
+  const requestScope = container.scope<{ requestId: string }>();
+
+  it("should return the scope's container inside runInScope", async () => {
+    const getRequestId = async () => {
+      await Promise.resolve();
+      return currentScope(requestScope).resolve("requestId");
+    };
+
+    const requestId = await runInScope(
+      requestScope,
+      { requestId: "1" },
+      getRequestId,
+    );
+
+    expect(requestId).toBe("1");
+  });
+
+  it("should pass the container to the function", async () => {
+    await runInScope(requestScope, { requestId: "1" }, (scope) => {
+      expect(scope).toBe(currentScope(requestScope));
+    });
+  });
+
+  it("should throw when no scope is active", () => {
+    expect(() => currentScope(requestScope)).toThrow(
+      "Scope is not active. Use runInScope to activate it.",
+    );
+  });
+
+  it("should resolve scoped services registered on the container from the active scope", async () => {
+    const [unitOfWork1, unitOfWork2] = await Promise.all([
+      runInScope(requestScope, { requestId: "1" }, (scope) => {
+        expect(container.resolve("unitOfWork")).toBe(
+          scope.resolve("unitOfWork"),
+        );
+        return container.resolve("unitOfWork");
+      }),
+      runInScope(requestScope, { requestId: "2" }, () =>
+        container.resolve("unitOfWork"),
+      ),
+    ]);
+
+    expect(unitOfWork1).not.toBe(unitOfWork2);
+    expect(() => container.resolve("unitOfWork")).toThrow(
+      'Service "unitOfWork" is scoped and can only be resolved from a scope',
+    );
+  });
+
+  it("should not let singletons depend on scoped services from the active scope", async () => {
+    const container = createIocContainer()
+      .register(
+        "unitOfWork",
+        scoped(() => ({})),
+      )
+      .register("service", (deps: { unitOfWork: {} }) => deps.unitOfWork);
+    const requestScope = container.scope<{}>();
+
+    await runInScope(requestScope, {}, () => {
+      expect(() => container.resolve("service")).toThrow(
+        'Service "unitOfWork" is scoped and can only be resolved from a scope',
+      );
+    });
+  });
+
+  it("should restore the outer scope after a nested scope finishes", async () => {
+    const jobScope = container.scope<{ jobId: string }>();
+
+    await runInScope(requestScope, { requestId: "1" }, async (outer) => {
+      await runInScope(jobScope, { jobId: "a" }, () => {
+        expect(currentScope(jobScope).resolve("jobId")).toBe("a");
+        expect(currentScope(requestScope)).toBe(outer);
+      });
+      await runInScope(jobScope, { jobId: "b" }, () => {
+        throw Error("Job failed");
+      }).catch(() => {});
+
+      expect(() => currentScope(jobScope)).toThrow();
+      expect(currentScope(requestScope)).toBe(outer);
+    });
+  });
+
+  it("should dispose the container after the function finishes", async () => {
+    const dispose = mock();
+    const scope = createIocContainer()
+      .scope<{}>()
+      .register(
+        "cache",
+        disposable(() => ({}), dispose),
+      );
+
+    const promise = runInScope(scope, {}, (container) => {
+      container.resolve("cache");
+      throw Error("Request failed");
+    });
+
+    await expect(promise).rejects.toThrow("Request failed");
+    expect(dispose).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,313 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { createIocContainer, disposable, type IocContainer } from "..";
+import { createFetchHandler, expressMiddleware, honoMiddleware } from "../http";
+
+describe("HTTP Adapters", () => {
+  const dispose = mock();
+  const createRequestScope = () =>
+    createIocContainer()
+      .scope<{ path: string }>()
+      .register(
+        "greeter",
+        disposable(
+          (deps: { path: string }) => ({ greet: () => `Hello ${deps.path}` }),
+          dispose,
+        ),
+      );
+
+  afterEach(() => {
+    dispose.mockClear();
+  });
+
+  describe("createFetchHandler", () => {
+    it("should create a container for each request and dispose it after the response is sent", async () => {
+      const containers = new Set<IocContainer<any>>();
+      const server = Bun.serve({
+        port: 0,
+        fetch: createFetchHandler(
+          createRequestScope(),
+          (request) => ({ path: new URL(request.url).pathname }),
+          (_, container) => {
+            containers.add(container);
+            return new Response(container.resolve("greeter").greet());
+          },
+        ),
+      });
+
+      try {
+        const res1 = await fetch(new URL("/a", server.url));
+        const res2 = await fetch(new URL("/b", server.url));
+
+        expect(await res1.text()).toBe("Hello /a");
+        expect(await res2.text()).toBe("Hello /b");
+        expect(containers.size).toBe(2);
+        expect(dispose).toBeCalledTimes(2);
+      } finally {
+        await server.stop(true);
+      }
+    });
+
+    it("should dispose the container when the handler throws", async () => {
+      const handler = createFetchHandler(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        (_, container) => {
+          container.resolve("greeter");
+          throw Error("Not found");
+        },
+      );
+
+      await expect(handler(new Request("http://localhost"))).rejects.toThrow(
+        "Not found",
+      );
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should dispose responses without a body immediately", async () => {
+      const handler = createFetchHandler(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        (_, container) => {
+          container.resolve("greeter");
+          return new Response(null, { status: 204 });
+        },
+      );
+
+      const response = await handler(new Request("http://localhost"));
+
+      expect(response.status).toBe(204);
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should dispose the container when the response body is cancelled", async () => {
+      const handler = createFetchHandler(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        (_, container) => {
+          container.resolve("greeter");
+          // A stream that never ends, like server-sent events
+          return new Response(new ReadableStream({ pull: () => {} }));
+        },
+      );
+
+      const response = await handler(new Request("http://localhost"));
+      expect(dispose).not.toBeCalled();
+      await response.body!.cancel();
+
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should pass errors disposing the container to onDisposeError", async () => {
+      const error = Error("Failed to close");
+      dispose.mockRejectedValueOnce(error);
+      const onDisposeError = mock();
+      const handler = createFetchHandler(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        (_, container) => {
+          container.resolve("greeter");
+          return new Response("ok");
+        },
+        { onDisposeError },
+      );
+
+      const response = await handler(new Request("http://localhost"));
+
+      expect(await response.text()).toBe("ok");
+      expect(onDisposeError).toBeCalledWith(
+        new AggregateError([error], "Failed to dispose services"),
+      );
+    });
+
+    it("should throw errors disposing the container without onDisposeError", async () => {
+      dispose.mockRejectedValueOnce(Error("Failed to close"));
+      const handler = createFetchHandler(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        (_, container) => {
+          container.resolve("greeter");
+          return new Response(null, { status: 204 });
+        },
+      );
+
+      await expect(handler(new Request("http://localhost"))).rejects.toThrow(
+        "Failed to dispose services",
+      );
+    });
+  });
+
+  describe("expressMiddleware", () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      if (!server) return;
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    });
+
+    const listen = async (
+      handler: Parameters<typeof createServer>[1],
+    ): Promise<string> => {
+      server = createServer(handler);
+      await new Promise<void>((resolve) => server!.listen(0, resolve));
+      const address = server.address();
+      if (typeof address !== "object" || address == null)
+        throw Error("Server not listening");
+      return `http://localhost:${address.port}`;
+    };
+
+    it("should set req.container and dispose it when the response is closed", async () => {
+      const closed = Promise.withResolvers<void>();
+      const middleware = expressMiddleware(
+        createRequestScope(),
+        (req: IncomingMessage & { container?: IocContainer<any> }) => ({
+          path: req.url!,
+        }),
+        { onDisposeError: mock() },
+      );
+      const url = await listen((req, res) => {
+        res.once("close", () => setTimeout(closed.resolve));
+        middleware(req, res, () => {
+          res.end(
+            (req as typeof req & { container: IocContainer<any> }).container
+              .resolve("greeter")
+              .greet(),
+          );
+        });
+      });
+
+      const response = await fetch(`${url}/users`);
+      await closed.promise;
+
+      expect(await response.text()).toBe("Hello /users");
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should pass errors creating the container to next", () => {
+      const next = mock();
+      const middleware = expressMiddleware(
+        createRequestScope(),
+        () => {
+          throw Error("Bad request");
+        },
+        { onDisposeError: mock() },
+      );
+
+      middleware({}, { once: mock() }, next);
+
+      expect(next).toBeCalledWith(Error("Bad request"));
+    });
+
+    it("should pass errors disposing the container to onDisposeError", async () => {
+      const error = Error("Failed to close");
+      dispose.mockRejectedValueOnce(error);
+      const onDisposeError = mock();
+      const closed = Promise.withResolvers<void>();
+      onDisposeError.mockImplementation(() => closed.resolve());
+      const middleware = expressMiddleware(
+        createRequestScope(),
+        () => ({ path: "/" }),
+        { onDisposeError },
+      );
+      const req: { container?: IocContainer<any> } = {};
+      let close = () => {};
+
+      middleware(req, { once: (_, listener) => (close = listener) }, () => {});
+      req.container!.resolve("greeter");
+      close();
+      await closed.promise;
+
+      expect(onDisposeError).toBeCalledWith(
+        new AggregateError([error], "Failed to dispose services"),
+      );
+    });
+
+    it("should keep serving requests when disposing a container fails", async () => {
+      dispose
+        .mockRejectedValueOnce(Error("Failed to close"))
+        .mockRejectedValueOnce(Error("Failed to close"));
+      const disposed = Promise.withResolvers<void>();
+      const onDisposeError = mock();
+      onDisposeError.mockImplementation(() => {
+        if (onDisposeError.mock.calls.length === 2) disposed.resolve();
+      });
+      const middleware = expressMiddleware(
+        createRequestScope(),
+        (req: IncomingMessage) => ({ path: req.url! }),
+        { onDisposeError },
+      );
+      const url = await listen((req, res) => {
+        middleware(req, res, () => {
+          res.end(
+            (req as typeof req & { container: IocContainer<any> }).container
+              .resolve("greeter")
+              .greet(),
+          );
+        });
+      });
+
+      const first = await fetch(`${url}/first`);
+      expect(await first.text()).toBe("Hello /first");
+      const second = await fetch(`${url}/second`);
+      expect(await second.text()).toBe("Hello /second");
+      await disposed.promise;
+
+      expect(onDisposeError).toBeCalledTimes(2);
+    });
+
+    it("should require onDisposeError", () => {
+      expect(() =>
+        // @ts-expect-error: onDisposeError is required
+        expressMiddleware(createRequestScope(), () => ({ path: "/" })),
+      ).toThrow('expressMiddleware requires an "onDisposeError" option');
+    });
+  });
+
+  describe("honoMiddleware", () => {
+    it("should set the container variable and dispose it after the handler finishes", async () => {
+      const variables = new Map<string, unknown>();
+      const c = {
+        req: { path: "/users" },
+        set: (key: string, value: unknown) => variables.set(key, value),
+      };
+      const middleware = honoMiddleware(
+        createRequestScope(),
+        (ctx: typeof c) => ({ path: ctx.req.path }),
+      );
+
+      let greeting: string | undefined;
+      await middleware(c, async () => {
+        const container = variables.get("container") as IocContainer<any>;
+        greeting = container.resolve("greeter").greet();
+        expect(dispose).not.toBeCalled();
+      });
+
+      expect(greeting).toBe("Hello /users");
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should throw errors disposing the container unless onDisposeError is passed", async () => {
+      const onDisposeError = mock();
+      const c = {
+        req: { path: "/users" },
+        set: (_: string, container: IocContainer<any>) =>
+          container.resolve("greeter"),
+      };
+
+      dispose.mockRejectedValueOnce(Error("Failed to close"));
+      await expect(
+        honoMiddleware(createRequestScope(), () => ({ path: "/" }))(
+          c,
+          async () => {},
+        ),
+      ).rejects.toThrow("Failed to dispose services");
+
+      dispose.mockRejectedValueOnce(Error("Failed to close"));
+      await honoMiddleware(createRequestScope(), () => ({ path: "/" }), {
+        onDisposeError,
+      })(c, async () => {});
+      expect(onDisposeError).toBeCalledTimes(1);
+    });
+  });
+});
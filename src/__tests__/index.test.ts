@@ -1,5 +1,28 @@
 import { describe, expect, it, mock } from "bun:test";
-import { createIocContainer, parameterize, transient } from "..";
+import {
+  asFactory,
+  awaited,
+  CircularDependencyError,
+  ContainerValidationError,
+  createIocContainer,
+  defineModule,
+  disposable,
+  type IocContainer,
+  type IocScope,
+  keyed,
+  type Keyed,
+  lazy,
+  type Lazy,
+  optional,
+  parameterize,
+  ScopeDependencyError,
+  scoped,
+  ServiceNotFoundError,
+  toDot,
+  toMermaid,
+  transient,
+  value,
+} from "..";
 
 describe("IoC Container", () => {
   it("should construct a dependency tree", () => {
@@ -250,5 +273,2247 @@ describe("IoC Container", () => {
       // Scoped services are created each time the scope is created
       expect(createC).toBeCalledTimes(2);
     });
+
+    it("should resolve services from every parent of a nested scope", () => {
+      const requestScope = createIocContainer()
+        .register("db", () => "db")
+        .scope<{ requestId: string }>()
+        .register("user", (deps: { requestId: string }) => deps.requestId);
+      const transactionScope = requestScope
+        .scope<{ tx: string }>()
+        .register(
+          "userRepo",
+          (deps: { db: string; user: string; tx: string }) =>
+            [deps.db, deps.user, deps.tx].join(),
+        );
+      const messageScope = transactionScope
+        .scope<{ message: string }>()
+        .register(
+          "handler",
+          (deps: { userRepo: string; message: string }) =>
+            `${deps.userRepo},${deps.message}`,
+        );
+
+      const request = requestScope({ requestId: "1" });
+      const transaction = transactionScope(request, { tx: "tx" });
+      const message = messageScope(transaction, { message: "hi" });
+
+      expect(message.resolve("handler")).toBe("db,1,tx,hi");
+      expect(message.resolve("user")).toBe(request.resolve("user"));
+    });
+
+    it("should create nested scopes independently of each other", () => {
+      const createUserRepo = mock((deps: { tx: string }) => ({ tx: deps.tx }));
+      const requestScope = createIocContainer().scope<{ requestId: string }>();
+      const transactionScope = requestScope
+        .scope<{ tx: string }>()
+        .register("userRepo", createUserRepo);
+
+      const request = requestScope({ requestId: "1" });
+      const transaction1 = transactionScope(request, { tx: "1" });
+      const transaction2 = transactionScope(request, { tx: "2" });
+
+      expect(transaction1.resolve("userRepo")).toEqual({ tx: "1" });
+      expect(transaction2.resolve("userRepo")).toEqual({ tx: "2" });
+      expect(createUserRepo).toBeCalledTimes(2);
+      expect(request.registrations).not.toHaveProperty("userRepo");
+    });
+
+    it("should throw when registering a service that's already registered, before the scope is created", () => {
+      const requestScope = createIocContainer()
+        .register("db", () => "db")
+        .scope<{ requestId: string }>()
+        .register("user", () => "user");
+
+      expect(() => requestScope.register("db", () => "other")).toThrow(
+        'Service "db" already registered',
+      );
+      expect(() => requestScope.register("user", () => "other")).toThrow(
+        'Service "user" already registered',
+      );
+    });
+
+    it("should not share registrations between instances of a scope", () => {
+      const requestScope = createIocContainer()
+        .scope<{ requestId: string }>()
+        .registerMany("checks", () => "a");
+
+      const scope1 = requestScope({ requestId: "1" }).registerMany(
+        "checks",
+        () => "b",
+      );
+      const scope2 = requestScope({ requestId: "2" });
+
+      expect(scope1.resolve("checks")).toEqual(["a", "b"]);
+      expect(scope2.resolve("checks")).toEqual(["a"]);
+    });
+
+    it("should throw when a dependency is already registered on a parent", () => {
+      const requestScope = createIocContainer()
+        .register("db", () => "db")
+        .scope<{ db: string }>();
+
+      expect(() => requestScope({ db: "scoped" })).toThrow(
+        'Service "db" already registered',
+      );
+    });
+
+    it("should throw when a nested scope's dependency is one of its parent scope's dependencies", () => {
+      const requestScope = createIocContainer().scope<{ requestId: string }>();
+      const transactionScope = requestScope.scope<{ requestId: string }>();
+
+      expect(() =>
+        transactionScope(requestScope({ requestId: "1" }), { requestId: "2" }),
+      ).toThrow('Service "requestId" already registered');
+    });
+
+    it("should throw when a nested scope's dependency is a dependency of any parent scope", () => {
+      const requestScope = createIocContainer().scope<{ request: string }>();
+      const transactionScope = requestScope.scope<{ tx: string }>();
+      const savepointScope = transactionScope.scope<{ request: string }>();
+      const transaction = transactionScope(
+        requestScope({ request: "request" }),
+        { tx: "tx" },
+      );
+
+      expect(() => savepointScope(transaction, { request: "shadow" })).toThrow(
+        'Service "request" already registered',
+      );
+    });
+
+    it("should include services registered after the scope was first created", () => {
+      const container: IocContainer<any> = createIocContainer();
+      const requestScope: IocScope<{ requestId: string }, any> =
+        container.scope();
+      requestScope({ requestId: "1" });
+
+      container.register(
+        "unitOfWork",
+        scoped(() => "uow"),
+      );
+      requestScope.register("user", () => "user");
+      const scope = requestScope({ requestId: "2" });
+
+      expect(scope.resolve("unitOfWork")).toBe("uow");
+      expect(scope.resolve("user")).toBe("user");
+      expect(() =>
+        container.scope<{ unitOfWork: string }>()({ unitOfWork: "other" }),
+      ).toThrow('Service "unitOfWork" already registered');
+    });
+
+    it("should throw when created with missing or unexpected dependencies", () => {
+      const requestScope = createIocContainer().scope<{
+        request: string;
+        user: string;
+      }>(["request", "user"]);
+
+      const createScope = () =>
+        // @ts-expect-error: Purposefully passing invalid dependencies
+        requestScope({ request: "request", requestId: "1" });
+
+      expect(createScope).toThrow(
+        new ScopeDependencyError(["user"], ["requestId"]),
+      );
+      expect(createScope).toThrow(
+        'Invalid scope dependencies: missing "user"; unexpected "requestId"',
+      );
+    });
+
+    it("should create the scope when the dependencies match the declared keys", () => {
+      const requestScope = createIocContainer().scope<{ request: string }>([
+        "request",
+      ]);
+
+      expect(requestScope({ request: "a" }).resolve("request")).toBe("a");
+    });
+
+    it("should validate the dependencies of nested scopes", () => {
+      const requestScope = createIocContainer().scope<{ request: string }>();
+      const transactionScope = requestScope.scope<{ tx: string }>(["tx"]);
+
+      expect(() =>
+        // @ts-expect-error: Purposefully missing dependencies
+        transactionScope(requestScope({ request: "a" }), {}),
+      ).toThrow('Invalid scope dependencies: missing "tx"');
+    });
+
+    it("should throw when a nested scope isn't created with a container", () => {
+      const transactionScope = createIocContainer()
+        .scope<{ requestId: string }>()
+        .scope<{ tx: string }>();
+
+      // @ts-expect-error: Purposefully missing the parent container
+      expect(() => transactionScope({ tx: "1" })).toThrow(
+        "Nested scopes must be created with a container",
+      );
+    });
+
+    it("should throw when a nested scope is created with a container from another scope", () => {
+      const container = createIocContainer();
+      const requestScope = container
+        .scope<{ requestId: string }>()
+        .register("auth", () => "auth");
+      const transactionScope = requestScope
+        .scope<{ tx: string }>()
+        .register("service", (deps: { auth: string }) => deps.auth);
+      const otherScope = createIocContainer()
+        .scope<{ requestId: string }>()
+        .register("auth", () => "other");
+      const error =
+        "Nested scopes must be created with a container created from their parent scope";
+
+      expect(() =>
+        // @ts-expect-error: Purposefully passing the root container
+        transactionScope(container, { tx: "1" }),
+      ).toThrow(error);
+      expect(() =>
+        transactionScope(otherScope({ requestId: "1" }), { tx: "1" }),
+      ).toThrow(error);
+      expect(
+        transactionScope(requestScope({ requestId: "1" }).fork(), {
+          tx: "1",
+        }).resolve("service"),
+      ).toBe("auth");
+    });
+  });
+
+  describe("dispose", () => {
+    it("should dispose instances in the reverse order they were created", async () => {
+      const disposed: string[] = [];
+
+      class Database {
+        close() {
+          disposed.push("db");
+        }
+      }
+      const createUserRepo = ({ db }: { db: Database }) => ({
+        db,
+        dispose: () => void disposed.push("userRepo"),
+      });
+      const createUserService = ({ userRepo }: { userRepo: unknown }) => ({
+        userRepo,
+        [Symbol.asyncDispose]: async () => void disposed.push("userService"),
+      });
+
+      const container = createIocContainer()
+        .register("db", Database)
+        .register("userRepo", createUserRepo)
+        .register("userService", createUserService);
+      container.resolve("userService");
+
+      await container.dispose();
+
+      expect(disposed).toEqual(["userService", "userRepo", "db"]);
+    });
+
+    it("should only dispose services that have been instantiated", async () => {
+      const dispose = mock();
+      const container = createIocContainer()
+        .register("a", () => ({ dispose }))
+        .register("b", () => ({ dispose }));
+      container.resolve("a");
+
+      await container.dispose();
+
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should prefer a custom disposer over hooks on the instance", async () => {
+      const disposer = mock();
+      const close = mock();
+      const instance = { close };
+      const container = createIocContainer().register(
+        "db",
+        disposable(() => instance, disposer),
+      );
+      container.resolve("db");
+
+      await container.dispose();
+
+      expect(disposer).toBeCalledWith(instance);
+      expect(close).not.toBeCalled();
+    });
+
+    it("should keep other options when combined with other helpers", () => {
+      const disposer = mock();
+      const container = createIocContainer().register(
+        "db",
+        disposable(
+          transient(() => ({})),
+          disposer,
+        ),
+      );
+
+      expect(container.resolve("db")).not.toBe(container.resolve("db"));
+    });
+
+    it("should create new instances after being disposed", async () => {
+      const openDatabase = mock(() => ({ [Symbol.dispose]: () => {} }));
+      const container = createIocContainer().register("db", openDatabase);
+
+      const db1 = container.resolve("db");
+      await container.dispose();
+      const db2 = container.resolve("db");
+
+      expect(db1).not.toBe(db2);
+      expect(openDatabase).toBeCalledTimes(2);
+    });
+
+    it("should dispose all services and throw an AggregateError when disposers fail", async () => {
+      const error = Error("Failed to close");
+      const dispose = mock();
+      const container = createIocContainer()
+        .register("a", () => ({ dispose }))
+        .register("b", () => ({
+          dispose: () => {
+            throw error;
+          },
+        }));
+      container.resolveAll();
+
+      const promise = container.dispose();
+
+      await expect(promise).rejects.toBeInstanceOf(AggregateError);
+      await expect(promise).rejects.toMatchObject({ errors: [error] });
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should support `await using`", async () => {
+      const dispose = mock();
+      {
+        await using container = createIocContainer().register("a", () => ({
+          dispose,
+        }));
+        container.resolve("a");
+      }
+
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should only dispose services created by a scope", async () => {
+      const disposeDb = mock();
+      const disposeAuth = mock();
+      const container = createIocContainer().register("db", () => ({
+        dispose: disposeDb,
+      }));
+      const scope = container
+        .scope<{ request: string }>()
+        .register("auth", ({ db }: { db: unknown; request: string }) => ({
+          db,
+          dispose: disposeAuth,
+        }));
+      const scoped = scope({ request: "request" });
+      scoped.resolve("auth");
+
+      await scoped.dispose();
+
+      expect(disposeAuth).toBeCalledTimes(1);
+      expect(disposeDb).not.toBeCalled();
+      expect(scoped.resolve("db")).toBe(container.resolve("db"));
+    });
+  });
+
+  describe("async services", () => {
+    it("should pass resolved async dependencies to dependents", async () => {
+      type Database = { query: () => string[] };
+      const openDatabase = async (): Promise<Database> => ({
+        query: () => ["one", "two"],
+      });
+      const createUserRepo = ({ db }: { db: Database }) => ({
+        list: () => db.query(),
+      });
+
+      const container = createIocContainer()
+        .register("db", awaited(openDatabase))
+        .register("userRepo", createUserRepo);
+
+      const userRepo = await container.resolveAsync("userRepo");
+
+      expect(userRepo.list()).toEqual(["one", "two"]);
+    });
+
+    it("should only resolve the async services a service depends on", async () => {
+      const openBroken = mock(async () => {
+        throw Error("broken db");
+      });
+      const loadConfig = async () => ({ port: 3000 });
+      const createServer = ({ cfg }: { cfg: { port: number } }) => ({
+        port: cfg.port,
+      });
+
+      const container = createIocContainer()
+        .register("broken", awaited(openBroken))
+        .register("cfg", awaited(loadConfig))
+        .register("server", createServer);
+
+      expect(await container.resolveAsync("cfg")).toEqual({ port: 3000 });
+      expect(await container.resolveAsync("server")).toEqual({ port: 3000 });
+      expect(openBroken).not.toBeCalled();
+    });
+
+    it("should create services again once the async services they need are resolved", async () => {
+      const createUserRepo = mock(({ db }: { db: string }) => ({ db }));
+      const interceptor = { onError: mock() };
+
+      const container = createIocContainer()
+        .use(interceptor)
+        .register(
+          "db",
+          awaited(async () => "db"),
+        )
+        .register("userRepo", createUserRepo);
+
+      expect(await container.resolveAsync("userRepo")).toEqual({ db: "db" });
+      expect(createUserRepo).toBeCalledTimes(2);
+      expect(interceptor.onError).not.toBeCalled();
+    });
+
+    it("should throw when async services depend on each other", async () => {
+      const container = createIocContainer()
+        .register(
+          "a",
+          // @ts-expect-error: b isn't registered yet
+          awaited(async ({ b }: { b: string }) => b),
+        )
+        .register(
+          "b",
+          awaited(async ({ a }: { a: string }) => a),
+        );
+
+      await expect(container.resolveAsync("a")).rejects.toThrow(
+        "Circular dependency detected: a -> b -> a",
+      );
+    });
+
+    it("should await async services that depend on other async services", async () => {
+      const openDatabase = async () => ({ name: "db" });
+      const createCache = async (deps: { db: { name: string } }) => ({
+        db: deps.db.name,
+      });
+
+      const container = createIocContainer()
+        .register("db", awaited(openDatabase))
+        .register("cache", awaited(createCache));
+
+      expect(await container.resolveAsync("cache")).toEqual({ db: "db" });
+    });
+
+    it("should only call async factories once when resolved concurrently", async () => {
+      const openDatabase = mock(async () => ({}));
+      const container = createIocContainer().register(
+        "db",
+        awaited(openDatabase),
+      );
+
+      const [db1, db2] = await Promise.all([
+        container.resolveAsync("db"),
+        container.resolveAsync("db"),
+      ]);
+
+      expect(openDatabase).toBeCalledTimes(1);
+      expect(db1).toBe(db2);
+    });
+
+    it("should throw when registering an async transient service", () => {
+      const openDatabase = async () => ({});
+
+      expect(() =>
+        createIocContainer().register("db", transient(awaited(openDatabase))),
+      ).toThrow('Service "db" can\'t be both async and transient');
+      expect(() =>
+        createIocContainer()
+          .register("db", awaited(openDatabase))
+          .override("db", transient(awaited(openDatabase))),
+      ).toThrow('Service "db" can\'t be both async and transient');
+    });
+
+    it("should throw when resolving an async service synchronously before it has been awaited", async () => {
+      const container = createIocContainer()
+        .register(
+          "db",
+          awaited(async () => ({})),
+        )
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      expect(() => container.resolve("userRepo")).toThrow(
+        'Service "db" is async and has not been resolved yet',
+      );
+
+      const db = await container.resolveAsync("db");
+
+      expect(container.resolve("userRepo")).toEqual({ db });
+    });
+
+    it("should retry failed async factories on the next resolution", async () => {
+      const error = Error("Connection refused");
+      const openDatabase = mock()
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce({});
+      const container = createIocContainer().register(
+        "db",
+        awaited(openDatabase as () => Promise<{}>),
+      );
+
+      await expect(container.resolveAsync("db")).rejects.toBe(error);
+      expect(await container.resolveAsync("db")).toEqual({});
+    });
+
+    it("should resolve all services, awaiting async ones", async () => {
+      const container = createIocContainer()
+        .register(
+          "a",
+          awaited(async () => "a"),
+        )
+        .register("b", (deps: { a: string }) => deps.a + "b");
+
+      expect(await container.resolveAllAsync()).toEqual({ a: "a", b: "ab" });
+    });
+
+    it("should await async services from the parent container in scopes", async () => {
+      const container = createIocContainer().register(
+        "a",
+        awaited(async () => "a"),
+      );
+      const scope = container.scope<{ b: string }>().register(
+        "c",
+        awaited(async (deps: { a: string; b: string }) => deps.a + deps.b),
+      );
+      const scoped = scope({ b: "b" });
+
+      expect(await scoped.resolveAsync("c")).toBe("ab");
+      expect(await scoped.resolveAllAsync()).toEqual({
+        a: "a",
+        b: "b",
+        c: "ab",
+      });
+    });
+  });
+
+  describe("resolution errors", () => {
+    it("should throw a ServiceNotFoundError when resolving an unregistered service", () => {
+      const container = createIocContainer();
+
+      // @ts-expect-error: Purposefully resolving a non-existent service
+      expect(() => container.resolve("db")).toThrow(
+        new ServiceNotFoundError(["db"]),
+      );
+    });
+
+    it("should reject with a ServiceNotFoundError when resolving an unregistered service asynchronously", async () => {
+      const container = createIocContainer().createChild();
+
+      // @ts-expect-error: Purposefully resolving a non-existent service
+      await expect(container.resolveAsync("db")).rejects.toThrow(
+        new ServiceNotFoundError(["db"]),
+      );
+    });
+
+    it("should include the resolution path when a dependency is not found", () => {
+      const container = createIocContainer()
+        .register("userRepo", (deps: any) => ({ db: deps.db }))
+        .register("userService", (deps: { userRepo: unknown }) => ({
+          userRepo: deps.userRepo,
+        }));
+
+      let error: unknown;
+      try {
+        container.resolve("userService");
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ServiceNotFoundError);
+      expect(error).toMatchObject({
+        key: "db",
+        path: ["userService", "userRepo", "db"],
+        message: 'Service "db" not found (userService -> userRepo -> db)',
+      });
+    });
+
+    it("should throw a CircularDependencyError instead of overflowing the stack", () => {
+      const container = createIocContainer()
+        .register("db", (deps: any) => ({ userService: deps.userService }))
+        .register("userRepo", (deps: { db: unknown }) => ({ db: deps.db }))
+        .register("userService", (deps: { userRepo: unknown }) => ({
+          userRepo: deps.userRepo,
+        }));
+
+      expect(() => container.resolve("userService")).toThrow(
+        new CircularDependencyError([
+          "userService",
+          "userRepo",
+          "db",
+          "userService",
+        ]),
+      );
+    });
+
+    it("should detect services that depend on themselves through parameterize", () => {
+      const createDb = (deps: { db: unknown }) => ({ db: deps.db });
+      const container = createIocContainer().register(
+        "db",
+        parameterize(createDb, {}) as any,
+      );
+
+      expect(() => container.resolve("db")).toThrow(CircularDependencyError);
+    });
+
+    it("should be able to resolve services again after an error", () => {
+      let fail = true;
+      const container = createIocContainer()
+        .register("db", () => {
+          if (fail) throw Error("Connection refused");
+          return {};
+        })
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      expect(() => container.resolve("userRepo")).toThrow("Connection refused");
+      fail = false;
+      expect(container.resolve("userRepo")).toEqual({ db: {} });
+    });
+
+    it("should include scope services in the path when a parent service's dependency is not found", () => {
+      const container = createIocContainer().register("a", (deps: any) => ({
+        b: deps.b,
+      }));
+      const scope = container
+        .scope<{}>()
+        .register("b", (deps: { a: unknown }) => ({ a: deps.a }));
+
+      expect(() => scope({}).resolve("b")).toThrow(
+        new ServiceNotFoundError(["b", "a", "b"]),
+      );
+    });
+  });
+
+  describe("falsy services", () => {
+    const falsyValues: Array<[name: string, value: unknown]> = [
+      ["0", 0],
+      ["-0", -0],
+      ["0n", 0n],
+      ["NaN", NaN],
+      ['""', ""],
+      ["false", false],
+      ["null", null],
+      ["undefined", undefined],
+    ];
+
+    for (const [name, value] of falsyValues) {
+      describe(name, () => {
+        it("should be accessible through the registrations proxy", () => {
+          const container = createIocContainer().register("flag", () => value);
+
+          expect(container.registrations.flag).toBe(value);
+        });
+
+        it("should only call the factory once", () => {
+          const factory = mock(() => value);
+          const container = createIocContainer().register("flag", factory);
+
+          container.resolve("flag");
+          container.resolve("flag");
+          void container.registrations.flag;
+
+          expect(factory).toBeCalledTimes(1);
+        });
+
+        it("should be injected into dependents", () => {
+          const container = createIocContainer()
+            .register("flag", () => value)
+            .register("service", (deps: { flag: typeof value }) => ({
+              flag: deps.flag,
+            }));
+
+          expect(container.resolve("service")).toEqual({ flag: value });
+        });
+
+        it("should be resolved from the parent container in scopes", () => {
+          const factory = mock(() => value);
+          const container = createIocContainer().register("flag", factory);
+          const scope = container.scope<{ other: typeof value }>();
+          const scoped = scope({ other: value });
+
+          expect(scoped.resolve("flag")).toBe(value);
+          expect(scoped.registrations.other).toBe(value);
+          expect(scoped.resolve("flag")).toBe(value);
+          expect(factory).toBeCalledTimes(1);
+        });
+
+        it("should be included when resolving all services", () => {
+          const container = createIocContainer().register("flag", () => value);
+          const scoped = container.scope<{ other: typeof value }>()({
+            other: value,
+          });
+
+          const services = scoped.resolveAll();
+
+          expect(services).toHaveProperty("flag");
+          expect(services).toHaveProperty("other");
+          expect(services.flag).toBe(value);
+          expect(services.other).toBe(value);
+        });
+      });
+    }
+  });
+
+  describe("values", () => {
+    it("should register values without calling or constructing them", () => {
+      const fetch = mock(() => "response");
+      class Database {}
+      const config = { port: 3000 };
+
+      const container = createIocContainer().register({
+        fetch: value(fetch),
+        Database: value(Database),
+        config: value(config),
+      });
+
+      expect(container.resolve("fetch")).toBe(fetch);
+      expect(container.resolve("Database")).toBe(Database);
+      expect(container.resolve("config")).toBe(config);
+      expect(fetch).not.toBeCalled();
+    });
+
+    it("should inject values into dependents", () => {
+      class Database {}
+      const container = createIocContainer()
+        .register("Database", value(Database))
+        .register("db", (deps: { Database: typeof Database }) => {
+          return new deps.Database();
+        });
+
+      expect(container.resolve("db")).toBeInstanceOf(Database);
+    });
+
+    it("should not dispose values", async () => {
+      const dispose = mock();
+      const container = createIocContainer().register("db", value({ dispose }));
+      container.resolve("db");
+
+      await container.dispose();
+
+      expect(dispose).not.toBeCalled();
+    });
+
+    it("should not call functions passed as scope dependencies", () => {
+      const handler = mock();
+      const scope = createIocContainer().scope<{ handler: () => void }>();
+
+      const scoped = scope({ handler });
+
+      expect(scoped.resolve("handler")).toBe(handler);
+      expect(handler).not.toBeCalled();
+    });
+  });
+
+  describe("overrides", () => {
+    type Database = { name: string };
+    const openDatabase = (): Database => ({ name: "postgres" });
+    const createInMemoryDatabase = (): Database => ({ name: "in-memory" });
+    const createUserRepo = (deps: { db: Database }) => ({ db: deps.db });
+
+    it("should rebuild dependents using the replacement service", () => {
+      const container = createIocContainer()
+        .register("db", openDatabase)
+        .register("userRepo", createUserRepo);
+
+      const testContainer = container.override("db", createInMemoryDatabase);
+
+      expect(testContainer.resolve("userRepo").db.name).toBe("in-memory");
+      expect(container.resolve("userRepo").db.name).toBe("postgres");
+    });
+
+    it("should not share instances with the original container", () => {
+      const createUserRepo = mock((deps: { db: Database }) => ({
+        db: deps.db,
+      }));
+      const container = createIocContainer()
+        .register("db", openDatabase)
+        .register("userRepo", createUserRepo);
+      const userRepo = container.resolve("userRepo");
+
+      const fork = container.fork();
+
+      expect(fork.resolve("userRepo")).not.toBe(userRepo);
+      expect(fork.resolve("userRepo")).toEqual(userRepo);
+      expect(createUserRepo).toBeCalledTimes(2);
+    });
+
+    it("should not modify the original container when registering services on a fork", () => {
+      const container = createIocContainer().register("db", openDatabase);
+
+      const fork = container.fork().register("userRepo", createUserRepo);
+
+      expect(fork.resolve("userRepo").db.name).toBe("postgres");
+      // @ts-expect-error: userRepo is not registered on the original container
+      expect(() => container.resolve("userRepo")).toThrow(ServiceNotFoundError);
+    });
+
+    it("should override services registered on a scope's parent container", () => {
+      const container = createIocContainer().register("db", openDatabase);
+      const scoped = container
+        .scope<{ userId: string }>()
+        .register("userRepo", createUserRepo)({ userId: "1" });
+
+      const testScoped = scoped.override("db", createInMemoryDatabase);
+
+      expect(testScoped.resolve("userRepo").db.name).toBe("in-memory");
+      expect(testScoped.resolve("userId")).toBe("1");
+      expect(scoped.resolve("userRepo").db.name).toBe("postgres");
+      expect(container.resolve("db").name).toBe("postgres");
+    });
+
+    it("should throw when overriding a service that isn't registered", () => {
+      const container = createIocContainer();
+
+      // @ts-expect-error: Purposefully overriding a non-existent service
+      expect(() => container.override("db", openDatabase)).toThrow(
+        new ServiceNotFoundError(["db"]),
+      );
+    });
+  });
+
+  describe("inspect", () => {
+    it("should list registered services and what they depend on", () => {
+      const container = createIocContainer()
+        .register("db", () => ({}))
+        .register("cache", () => ({}))
+        .register("userRepo", (deps: { db: {}; cache: {} }) => ({
+          db: deps.db,
+          cache: deps.cache,
+        }))
+        .register("other", () => ({}));
+      container.resolve("userRepo");
+
+      expect(container.inspect()).toEqual([
+        {
+          key: "db",
+          lifetime: "singleton",
+          instantiated: true,
+          depth: 0,
+          dependencies: [],
+        },
+        {
+          key: "cache",
+          lifetime: "singleton",
+          instantiated: true,
+          depth: 0,
+          dependencies: [],
+        },
+        {
+          key: "userRepo",
+          lifetime: "singleton",
+          instantiated: true,
+          depth: 0,
+          dependencies: ["db", "cache"],
+        },
+        {
+          key: "other",
+          lifetime: "singleton",
+          instantiated: false,
+          depth: 0,
+          dependencies: [],
+        },
+      ]);
+    });
+
+    it("should include the lifetime of each service", () => {
+      const container = createIocContainer().register({
+        singleton: () => ({}),
+        transient: transient(() => ({})),
+        value: value({}),
+      });
+      const scoped = container
+        .scope<{ request: string }>()
+        .register("scoped", () => ({}))({ request: "" });
+
+      expect(
+        scoped.inspect().map(({ key, lifetime, depth }) => ({
+          key,
+          lifetime,
+          depth,
+        })),
+      ).toEqual([
+        { key: "singleton", lifetime: "singleton", depth: 0 },
+        { key: "transient", lifetime: "transient", depth: 0 },
+        { key: "value", lifetime: "value", depth: 0 },
+        { key: "request", lifetime: "value", depth: 1 },
+        { key: "scoped", lifetime: "scoped", depth: 1 },
+      ]);
+    });
+
+    it("should not record services accessed after construction", () => {
+      const container = createIocContainer()
+        .register("db", () => ({}))
+        .register("userRepo", (deps: { db: {} }) => ({
+          getDb: () => deps.db,
+        }))
+        .register("userService", (deps: { userRepo: { getDb: () => {} } }) => {
+          const userRepo = deps.userRepo;
+          return { userRepo };
+        });
+
+      container.resolve("userService").userRepo.getDb();
+
+      expect(
+        container.inspect().map((service) => service.dependencies),
+      ).toEqual([[], [], ["userRepo"]]);
+    });
+
+    it("should not mark transient services as instantiated", () => {
+      const container = createIocContainer().register(
+        "db",
+        transient(() => ({})),
+      );
+      container.resolve("db");
+
+      expect(container.inspect()[0]!.instantiated).toBe(false);
+    });
+  });
+
+  describe("graph exports", () => {
+    function createScopedContainer() {
+      const container = createIocContainer()
+        .register("db", () => ({}))
+        .register(
+          "logger",
+          transient(() => ({})),
+        )
+        .register("userRepo", (deps: { db: {}; logger: {} }) => ({
+          db: deps.db,
+          logger: deps.logger,
+        }));
+      const scoped = container
+        .scope<{ request: string }>()
+        .register("authService", (deps: { userRepo: {}; request: string }) => ({
+          userRepo: deps.userRepo,
+          request: deps.request,
+        }))({ request: "" });
+      scoped.resolve("authService");
+      return scoped;
+    }
+
+    it("should convert a container to a DOT graph", () => {
+      expect(toDot(createScopedContainer())).toBe(
+        [
+          "digraph {",
+          "  subgraph cluster_0 {",
+          '    label="Container";',
+          '    s0 [label="db", shape=box];',
+          '    s1 [label="logger", shape=box, style="dashed"];',
+          '    s2 [label="userRepo", shape=box];',
+          "  }",
+          "  subgraph cluster_1 {",
+          '    label="Scope 1";',
+          '    s3 [label="request", shape=note];',
+          '    s4 [label="authService", shape=box, style="rounded"];',
+          "  }",
+          "  s2 -> s0;",
+          "  s2 -> s1;",
+          "  s4 -> s2;",
+          "  s4 -> s3;",
+          "}",
+        ].join("\n"),
+      );
+    });
+
+    it("should convert a container to a Mermaid flowchart", () => {
+      expect(toMermaid(createScopedContainer())).toBe(
+        [
+          "flowchart TD",
+          '  subgraph scope_0 ["Container"]',
+          '    s0["db"]',
+          '    s1(["logger"])',
+          '    s2["userRepo"]',
+          "  end",
+          '  subgraph scope_1 ["Scope 1"]',
+          '    s3[/"request"/]',
+          '    s4("authService")',
+          "  end",
+          "  s2 --> s0",
+          "  s2 --> s1",
+          "  s4 --> s2",
+          "  s4 --> s3",
+        ].join("\n"),
+      );
+    });
+
+    it("should escape quotes in service names", () => {
+      const container = createIocContainer().register('say "hi"', () => ({}));
+
+      expect(toDot(container)).toContain('[label="say \\"hi\\"", shape=box]');
+      expect(toMermaid(container)).toContain('s0["say #quot;hi#quot;"]');
+    });
+  });
+
+  describe("validate", () => {
+    it("should resolve every singleton and return how long each took", async () => {
+      const createTransient = mock(() => ({}));
+      const container = createIocContainer()
+        .register(
+          "db",
+          awaited(async () => ({})),
+        )
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }))
+        .register("transient", transient(createTransient))
+        .register("value", value({}));
+
+      const durations = await container.validate();
+
+      expect(Object.keys(durations)).toEqual(["db", "userRepo"]);
+      expect(durations.db).toBeGreaterThanOrEqual(0);
+      expect(durations.userRepo).toBeGreaterThanOrEqual(0);
+      expect(container.inspect().map((s) => s.instantiated)).toEqual([
+        true,
+        true,
+        false,
+        true,
+      ]);
+      expect(createTransient).not.toBeCalled();
+    });
+
+    it("should report every service that failed to resolve", async () => {
+      const dbError = Error("Connection refused");
+      const cacheError = Error("Cache unavailable");
+      const container = createIocContainer()
+        .register("db", (): {} => {
+          throw dbError;
+        })
+        .register("cache", (): {} => {
+          throw cacheError;
+        })
+        .register("logger", () => ({}))
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      let error: unknown;
+      try {
+        await container.validate();
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ContainerValidationError);
+      expect(error).toBeInstanceOf(AggregateError);
+      expect((error as ContainerValidationError).failures).toEqual({
+        db: dbError,
+        cache: cacheError,
+        userRepo: dbError,
+      });
+      expect((error as ContainerValidationError).errors).toEqual([
+        dbError,
+        cacheError,
+        dbError,
+      ]);
+      expect(container.inspect()[2]!.instantiated).toBe(true);
+    });
+
+    it("should only report services that failed or depend on a service that failed", async () => {
+      const error = Error("broken db");
+      const openBroken = mock(async (): Promise<{}> => {
+        throw error;
+      });
+      const createRepo = mock((deps: { broken: {} }) => ({
+        broken: deps.broken,
+      }));
+      const container = createIocContainer()
+        .register("broken", awaited(openBroken))
+        .register("a", () => ({}))
+        .register(
+          "cfg",
+          awaited(async () => ({})),
+        )
+        .register("repo", createRepo)
+        .register("service", (deps: { repo: {} }) => ({ repo: deps.repo }));
+
+      let failure: unknown;
+      try {
+        await container.validate();
+      } catch (err) {
+        failure = err;
+      }
+
+      expect((failure as ContainerValidationError).failures).toEqual({
+        broken: error,
+        repo: error,
+        service: error,
+      });
+      expect(openBroken).toBeCalledTimes(1);
+      expect(createRepo).toBeCalledTimes(1);
+    });
+
+    it("should create services that failed during validation again afterwards", async () => {
+      const openDb = mock((): {} => {
+        throw Error("Connection refused");
+      });
+      const container = createIocContainer().register("db", openDb);
+
+      await expect(container.validate()).rejects.toThrow(
+        ContainerValidationError,
+      );
+      openDb.mockImplementation(() => ({}));
+
+      expect(container.resolve("db")).toEqual({});
+    });
+
+    it("should validate scoped services and their parent's services", async () => {
+      const scoped = createIocContainer()
+        .register("db", () => ({}))
+        .scope<{ request: string }>()
+        .register("auth", (deps: { db: {}; request: string }) => ({
+          db: deps.db,
+          request: deps.request,
+        }))({
+        request: "",
+      });
+
+      expect(Object.keys(await scoped.validate())).toEqual(["db", "auth"]);
+    });
+  });
+
+  describe("interceptors", () => {
+    it("should call onResolve every time a service is resolved", () => {
+      const onResolve = mock();
+      const db = {};
+      const container = createIocContainer()
+        .use({ onResolve })
+        .register("db", () => db)
+        .register("config", value({ port: 3000 }))
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      container.resolve("db");
+      container.resolve("db");
+      container.resolve("config");
+      container.resolve("userRepo");
+
+      expect(onResolve.mock.calls.map(([{ key }]) => key)).toEqual([
+        "db",
+        "db",
+        "config",
+        "db",
+        "userRepo",
+      ]);
+      expect(onResolve).toBeCalledWith({
+        key: "db",
+        lifetime: "singleton",
+        depth: 0,
+        instance: db,
+      });
+    });
+
+    it("should call hooks when services are created", () => {
+      const beforeResolve = mock();
+      const afterResolve = mock();
+      const db = {};
+      const container = createIocContainer()
+        .use({ beforeResolve, afterResolve })
+        .register("db", () => db)
+        .register(
+          "logger",
+          transient(() => ({})),
+        );
+
+      container.resolve("db");
+      container.resolve("db");
+      container.resolve("logger");
+      container.resolve("logger");
+
+      expect(beforeResolve.mock.calls).toEqual([
+        [{ key: "db", lifetime: "singleton", depth: 0 }],
+        [{ key: "logger", lifetime: "transient", depth: 0 }],
+        [{ key: "logger", lifetime: "transient", depth: 0 }],
+      ]);
+      expect(afterResolve).toBeCalledTimes(3);
+      expect(afterResolve).toBeCalledWith({
+        key: "db",
+        lifetime: "singleton",
+        depth: 0,
+        instance: db,
+      });
+    });
+
+    it("should cache and inject instances returned from afterResolve", () => {
+      const container = createIocContainer()
+        .use({
+          afterResolve: ({ key, instance }) =>
+            key.endsWith("Repo") ? { wrapped: instance } : undefined,
+        })
+        .register("db", () => ({ name: "db" }))
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }))
+        .register("userService", (deps: { userRepo: {} }) => ({
+          userRepo: deps.userRepo,
+        }));
+
+      const userService = container.resolve("userService");
+
+      expect(userService).toEqual({
+        userRepo: { wrapped: { db: { name: "db" } } },
+      });
+      expect(container.resolve("userRepo") as {}).toBe(userService.userRepo);
+    });
+
+    it("should call onError when a factory throws", () => {
+      const error = Error("Connection refused");
+      const onError = mock();
+      const container = createIocContainer()
+        .use({ onError })
+        .register("db", (): {} => {
+          throw error;
+        })
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      expect(() => container.resolve("userRepo")).toThrow(error);
+      expect(onError.mock.calls).toEqual([
+        [{ key: "db", lifetime: "singleton", depth: 0, error }],
+        [{ key: "userRepo", lifetime: "singleton", depth: 0, error }],
+      ]);
+    });
+
+    it("should pass the resolved value of async services to afterResolve", async () => {
+      const afterResolve = mock();
+      const container = createIocContainer()
+        .use({ afterResolve })
+        .register(
+          "db",
+          awaited(async () => "db"),
+        );
+
+      await container.resolveAsync("db");
+
+      expect(afterResolve).toBeCalledWith({
+        key: "db",
+        lifetime: "singleton",
+        depth: 0,
+        instance: "db",
+      });
+    });
+
+    it("should apply parent interceptors to services created by scopes", () => {
+      const parentResolve = mock();
+      const scopeResolve = mock();
+      const container = createIocContainer()
+        .use({ beforeResolve: parentResolve })
+        .register("db", () => ({}));
+      const scoped = container
+        .scope<{ request: string }>()
+        .register("auth", (deps: { db: {} }) => ({ db: deps.db }))({
+        request: "",
+      });
+      scoped.use({ beforeResolve: scopeResolve });
+
+      scoped.resolve("auth");
+
+      expect(parentResolve.mock.calls).toEqual([
+        [{ key: "auth", lifetime: "scoped", depth: 1 }],
+        [{ key: "db", lifetime: "singleton", depth: 0 }],
+      ]);
+      // Scope interceptors don't apply to the parent's singletons
+      expect(scopeResolve.mock.calls).toEqual([
+        [{ key: "auth", lifetime: "scoped", depth: 1 }],
+      ]);
+    });
+  });
+
+  describe("decorate", () => {
+    type UserRepo = { get: (id: string) => string };
+    const createUserRepo = (): UserRepo => ({ get: (id) => `user-${id}` });
+
+    it("should give dependents the decorated service", () => {
+      const container = createIocContainer()
+        .register("prefix", () => "cached")
+        .register("userRepo", createUserRepo)
+        .decorate("userRepo", (userRepo, { prefix }) => ({
+          get: (id) => `${prefix}-${userRepo.get(id)}`,
+        }))
+        .register("userService", (deps: { userRepo: UserRepo }) => ({
+          getUser: (id: string) => deps.userRepo.get(id),
+        }));
+
+      expect(container.resolve("userService").getUser("1")).toBe(
+        "cached-user-1",
+      );
+    });
+
+    it("should apply decorators in the order they were added", () => {
+      const container = createIocContainer()
+        .register("userRepo", createUserRepo)
+        .decorate("userRepo", (userRepo) => ({
+          get: (id) => `a(${userRepo.get(id)})`,
+        }))
+        .decorate("userRepo", (userRepo) => ({
+          get: (id) => `b(${userRepo.get(id)})`,
+        }));
+
+      expect(container.resolve("userRepo").get("1")).toBe("b(a(user-1))");
+    });
+
+    it("should keep the service's lifetime", () => {
+      const container = createIocContainer()
+        .register("userRepo", transient(createUserRepo))
+        .decorate("userRepo", (userRepo) => ({ ...userRepo }));
+
+      expect(container.resolve("userRepo")).not.toBe(
+        container.resolve("userRepo"),
+      );
+    });
+
+    it("should decorate async services after they've been awaited", async () => {
+      const container = createIocContainer()
+        .register(
+          "userRepo",
+          awaited(async () => createUserRepo()),
+        )
+        .decorate("userRepo", (userRepo) => ({
+          get: (id) => userRepo.get(id).toUpperCase(),
+        }));
+
+      const userRepo = await container.resolveAsync("userRepo");
+
+      expect(userRepo.get("1")).toBe("USER-1");
+    });
+
+    it("should throw when decorating a service that has already been resolved", () => {
+      const container = createIocContainer().register(
+        "userRepo",
+        createUserRepo,
+      );
+      container.resolve("userRepo");
+
+      expect(() => container.decorate("userRepo", (repo) => repo)).toThrow(
+        'Service "userRepo" has already been resolved',
+      );
+    });
+
+    it("should decorate parent services per scope without changing the parent", () => {
+      const container = createIocContainer().register(
+        "userRepo",
+        createUserRepo,
+      );
+      const scope = container
+        .scope<{ requestId: string }>()
+        .decorate("userRepo", (userRepo, { requestId }) => ({
+          get: (id) => `${requestId}:${userRepo.get(id)}`,
+        }))
+        .register("userService", (deps: { userRepo: UserRepo }) => ({
+          getUser: (id: string) => deps.userRepo.get(id),
+        }));
+
+      const scoped1 = scope({ requestId: "a" });
+      const scoped2 = scope({ requestId: "b" });
+
+      expect(scoped1.resolve("userService").getUser("1")).toBe("a:user-1");
+      expect(scoped2.resolve("userService").getUser("1")).toBe("b:user-1");
+      expect(container.resolve("userRepo").get("1")).toBe("user-1");
+    });
+
+    it("should not dispose the parent's instance when a scope that decorated it is disposed", async () => {
+      const dispose = mock();
+      const container = createIocContainer().register("db", () => ({
+        dispose,
+      }));
+      const scope = container
+        .scope<{}>()
+        .decorate("db", (db) => new Proxy(db, {}));
+
+      const scoped = scope({});
+      scoped.resolve("db");
+      await scoped.dispose();
+
+      expect(dispose).not.toBeCalled();
+      expect(container.resolve("db").dispose).toBe(dispose);
+    });
+
+    it("should call the dispose hook for a parent's decorated service when the scope is disposed", async () => {
+      const dispose = mock();
+      const container = createIocContainer().register(
+        "userRepo",
+        createUserRepo,
+      );
+      const scope = container
+        .scope<{}>()
+        .decorate("userRepo", (userRepo) => ({ ...userRepo }), dispose);
+
+      const scoped = scope({});
+      const userRepo = scoped.resolve("userRepo");
+      await scoped.dispose();
+
+      expect(dispose).toBeCalledWith(userRepo);
+    });
+
+    it("should call the dispose hook instead of disposing the decorated service", async () => {
+      const close = mock();
+      const dispose = mock();
+      const container = createIocContainer()
+        .register("db", () => ({ close }))
+        .decorate("db", (db) => db, dispose);
+
+      const db = container.resolve("db");
+      await container.dispose();
+
+      expect(dispose).toBeCalledWith(db);
+      expect(close).not.toBeCalled();
+    });
+
+    it("should not dispose decorated values unless a dispose hook is passed", async () => {
+      const close = mock();
+      const dispose = mock();
+      const container = createIocContainer()
+        .register("v", value({ close }))
+        .decorate("v", (v) => v)
+        .register("w", value({ close }))
+        .decorate("w", (w) => w, dispose);
+
+      const w = container.resolve("w");
+      container.resolve("v");
+      await container.dispose();
+
+      expect(close).not.toBeCalled();
+      expect(dispose).toBeCalledWith(w);
+    });
+  });
+
+  describe("collections", () => {
+    type HealthCheck = { name: string };
+
+    it("should inject every service registered under the same key, in order", () => {
+      const container = createIocContainer()
+        .register("db", () => ({ name: "db" }))
+        .registerMany("healthChecks", (deps: { db: HealthCheck }) => deps.db)
+        .registerMany("healthChecks", () => ({ name: "disk" }))
+        .register("healthService", (deps: { healthChecks: HealthCheck[] }) => ({
+          check: () => deps.healthChecks.map((check) => check.name),
+        }));
+
+      expect(container.resolve("healthService").check()).toEqual([
+        "db",
+        "disk",
+      ]);
+    });
+
+    it("should only create the collection once", () => {
+      const createCheck = mock(() => ({ name: "disk" }));
+      const container = createIocContainer().registerMany(
+        "healthChecks",
+        createCheck,
+      );
+
+      const checks1 = container.resolve("healthChecks");
+      const checks2 = container.resolve("healthChecks");
+
+      expect(checks1).toBe(checks2);
+      expect(createCheck).toBeCalledTimes(1);
+    });
+
+    it("should throw when mixing register and registerMany for the same key", () => {
+      const container = createIocContainer().register("db", () => ({}));
+
+      expect(() => container.registerMany("db", () => ({}))).toThrow(
+        'Service "db" already registered',
+      );
+      expect(() =>
+        createIocContainer()
+          .registerMany("db", () => ({}))
+          .register("db", () => ({})),
+      ).toThrow('Service "db" already registered');
+    });
+
+    it("should merge the parent's collection with the scope's collection", () => {
+      const createDiskCheck = mock(() => ({ name: "disk" }));
+      const container = createIocContainer()
+        .registerMany("healthChecks", createDiskCheck)
+        .registerMany("healthChecks", () => ({ name: "memory" }));
+      const scope = container
+        .scope<{ request: string }>()
+        .registerMany("healthChecks", (deps: { request: string }) => ({
+          name: deps.request,
+        }));
+
+      const checks1 = scope({ request: "a" }).resolve("healthChecks");
+      const checks2 = scope({ request: "b" }).resolve("healthChecks");
+
+      expect(checks1).toEqual([
+        { name: "disk" },
+        { name: "memory" },
+        { name: "a" },
+      ]);
+      expect(checks2).toEqual([
+        { name: "disk" },
+        { name: "memory" },
+        { name: "b" },
+      ]);
+      expect(checks1[0]).toBe(checks2[0]!);
+      expect(container.resolve("healthChecks")).toHaveLength(2);
+      expect(createDiskCheck).toBeCalledTimes(1);
+    });
+
+    it("should await async services in the collection", async () => {
+      const container = createIocContainer()
+        .registerMany("healthChecks", () => ({ name: "disk" }))
+        .registerMany(
+          "healthChecks",
+          awaited(async () => ({ name: "db" })),
+        );
+
+      expect(await container.resolveAsync("healthChecks")).toEqual([
+        { name: "disk" },
+        { name: "db" },
+      ]);
+    });
+
+    it("should dispose services in the collection in reverse order", async () => {
+      const disposed: string[] = [];
+      const createCheck = (name: string) => () => ({
+        name,
+        dispose: () => void disposed.push(name),
+      });
+      const container = createIocContainer().registerMany(
+        "healthChecks",
+        createCheck("parent"),
+      );
+      const scoped = container
+        .scope<{}>()
+        .registerMany("healthChecks", createCheck("a"))
+        .registerMany("healthChecks", createCheck("b"))({});
+      scoped.resolve("healthChecks");
+
+      await scoped.dispose();
+      expect(disposed).toEqual(["b", "a"]);
+
+      await container.dispose();
+      expect(disposed).toEqual(["b", "a", "parent"]);
+    });
+
+    it("should not add services to the original container's collection when forked", () => {
+      const container = createIocContainer().registerMany(
+        "healthChecks",
+        () => ({ name: "disk" }),
+      );
+
+      const fork = container
+        .fork()
+        .registerMany("healthChecks", () => ({ name: "db" }));
+
+      expect(fork.resolve("healthChecks")).toHaveLength(2);
+      expect(container.resolve("healthChecks")).toHaveLength(1);
+    });
+
+    it("should decorate the whole collection", () => {
+      const container = createIocContainer()
+        .registerMany("healthChecks", () => ({ name: "disk" }))
+        .decorate("healthChecks", (checks) =>
+          checks.map((check) => ({ name: check.name.toUpperCase() })),
+        )
+        .registerMany("healthChecks", () => ({ name: "db" }));
+
+      expect(container.resolve("healthChecks")).toEqual([
+        { name: "DISK" },
+        { name: "DB" },
+      ]);
+    });
+  });
+
+  describe("optional dependencies", () => {
+    type Smtp = { send: (to: string) => string };
+    const createMailer = (deps: { smtp?: Smtp; from?: string }) => ({
+      send: (to: string) => deps.smtp?.send(to) ?? "not sent",
+    });
+
+    it("should pass undefined for optional dependencies that aren't registered", () => {
+      const container = createIocContainer().register(
+        "mailer",
+        optional(createMailer, "smtp", "from"),
+      );
+
+      expect(container.resolve("mailer").send("a")).toBe("not sent");
+    });
+
+    it("should pass optional dependencies that are registered", () => {
+      const container = createIocContainer()
+        .register("smtp", (): Smtp => ({ send: (to) => `sent to ${to}` }))
+        .register("mailer", optional(createMailer, "smtp", "from"));
+
+      expect(container.resolve("mailer").send("a")).toBe("sent to a");
+    });
+
+    it("should still throw for required dependencies that aren't registered", () => {
+      const createMailer = (deps: { smtp?: Smtp; from: string }) => ({
+        from: deps.from,
+      });
+      const container = createIocContainer().register(
+        "mailer",
+        // @ts-expect-error: Purposefully missing a required dependency
+        optional(createMailer, "smtp"),
+      );
+
+      expect(() => container.resolve("mailer")).toThrow(
+        new ServiceNotFoundError(["mailer", "from"]),
+      );
+    });
+
+    it("should support checking if a dependency is registered with the in operator", () => {
+      const container = createIocContainer()
+        .register("smtp", () => ({}))
+        .register("services", (deps: { smtp?: {} }) => ({
+          smtp: "smtp" in deps,
+          other: "other" in deps,
+        }));
+
+      expect(container.resolve("services")).toEqual({
+        smtp: true,
+        other: false,
+      });
+    });
+  });
+
+  describe("lazy", () => {
+    type ReportEngine = { render: () => string };
+
+    it("should throw when the factory is async", () => {
+      const createReportEngine = awaited(
+        async (): Promise<ReportEngine> => ({ render: () => "report" }),
+      );
+
+      // @ts-expect-error: Purposefully passing an async factory
+      expect(() => lazy(createReportEngine)).toThrow(
+        "Lazy services can't be async",
+      );
+    });
+
+    it("should return a promise from async factories that aren't awaited", async () => {
+      const container = createIocContainer().register(
+        "reportEngine",
+        lazy(async (): Promise<ReportEngine> => ({ render: () => "report" })),
+      );
+
+      const reportEngine = container.resolve("reportEngine");
+
+      expect(reportEngine()).toBe(reportEngine());
+      expect((await reportEngine()).render()).toBe("report");
+    });
+
+    it("should not create the service until the function is called", () => {
+      const createReportEngine = mock(
+        (): ReportEngine => ({
+          render: () => "report",
+        }),
+      );
+      const container = createIocContainer()
+        .register("reportEngine", lazy(createReportEngine))
+        .register(
+          "reports",
+          (deps: { reportEngine: Lazy<ReportEngine> }) => deps.reportEngine,
+        );
+
+      const getReportEngine = container.resolve("reports");
+      expect(createReportEngine).not.toBeCalled();
+
+      expect(getReportEngine().render()).toBe("report");
+      expect(createReportEngine).toBeCalledTimes(1);
+    });
+
+    it("should return the same instance every time", () => {
+      const container = createIocContainer()
+        .register(
+          "reportEngine",
+          lazy(() => ({})),
+        )
+        .register("a", (deps: { reportEngine: Lazy<{}> }) => deps.reportEngine)
+        .register("b", (deps: { reportEngine: Lazy<{}> }) => deps.reportEngine);
+
+      const a = container.resolve("a");
+      const b = container.resolve("b");
+
+      expect(a()).toBe(a());
+      expect(a()).toBe(b());
+    });
+
+    it("should resolve dependencies from the scope the service was registered on", () => {
+      const createScope = createIocContainer().scope<{ user: string }>();
+      const createGreeter = (deps: { user: string }) => ({
+        greet: () => `Hello ${deps.user}`,
+      });
+      const scope = createScope({ user: "scoped" }).register(
+        "greeter",
+        lazy(createGreeter),
+      );
+
+      expect(scope.resolve("greeter")().greet()).toBe("Hello scoped");
+    });
+
+    it("should dispose the service only if it was created", async () => {
+      const dispose = mock();
+      const container = createIocContainer()
+        .register("a", lazy(disposable(() => "a", dispose)))
+        .register("b", lazy(disposable(() => "b", dispose)));
+
+      container.resolve("a")();
+      container.resolve("b");
+      await container.dispose();
+
+      expect(dispose).toBeCalledTimes(1);
+      expect(dispose).toBeCalledWith("a");
+    });
+
+    it("should dispose the service before its dependencies", async () => {
+      const disposed: string[] = [];
+      const container = createIocContainer()
+        .register(
+          "db",
+          disposable(
+            () => "db",
+            () => void disposed.push("db"),
+          ),
+        )
+        .register(
+          "reportEngine",
+          lazy(
+            disposable(
+              (deps: { db: string }) => `engine(${deps.db})`,
+              () => void disposed.push("reportEngine"),
+            ),
+          ),
+        )
+        .register(
+          "reports",
+          (deps: { reportEngine: Lazy<string> }) => deps.reportEngine,
+        );
+
+      expect(container.resolve("reports")()).toBe("engine(db)");
+      await container.dispose();
+
+      expect(disposed).toEqual(["reportEngine", "db"]);
+    });
+
+    it("should create the service through the container when the function is called", () => {
+      const beforeResolve = mock();
+      const container = createIocContainer()
+        .use({ beforeResolve })
+        .register("db", () => "db")
+        .register(
+          "reportEngine",
+          lazy((deps: { db: string }) => deps.db),
+        );
+
+      const getReportEngine = container.resolve("reportEngine");
+      beforeResolve.mockClear();
+      getReportEngine();
+
+      expect(beforeResolve.mock.calls.map(([{ key }]) => key)).toEqual([
+        "reportEngine",
+        "db",
+      ]);
+      expect(container.inspect()).toContainEqual(
+        expect.objectContaining({
+          key: "reportEngine",
+          dependencies: ["db"],
+        }),
+      );
+    });
+
+    it("should detect circular dependencies when the service is created", () => {
+      const container = createIocContainer()
+        .register(
+          "reportEngine",
+          // @ts-expect-error: Purposefully creating a circular dependency
+          lazy((deps: { reports: unknown }) => deps.reports),
+        )
+        .register("reports", (deps: { reportEngine: Lazy<unknown> }) =>
+          deps.reportEngine(),
+        );
+
+      expect(() => container.resolve("reports")).toThrow(
+        new CircularDependencyError(["reports", "reportEngine", "reports"]),
+      );
+    });
+  });
+
+  describe("asFactory", () => {
+    type Database = { name: string };
+    const createUserRepo = (deps: { db: Database; tenantId: string }) => ({
+      db: deps.db,
+      tenantId: deps.tenantId,
+    });
+
+    it("should resolve a function that passes arguments alongside dependencies", () => {
+      const db: Database = { name: "db" };
+      const container = createIocContainer()
+        .register("db", value(db))
+        .register("createUserRepo", asFactory(createUserRepo, "tenantId"));
+
+      const createRepo = container.resolve("createUserRepo");
+
+      expect(createRepo({ tenantId: "a" })).toEqual({ db, tenantId: "a" });
+      expect(createRepo({ tenantId: "b" })).toEqual({ db, tenantId: "b" });
+    });
+
+    it("should create a new instance every call", () => {
+      class UserRepo {
+        constructor(public deps: { db: Database; tenantId: string }) {}
+      }
+      const container = createIocContainer()
+        .register("db", () => ({ name: "db" }))
+        .register("createUserRepo", asFactory(UserRepo, "tenantId"));
+
+      const createRepo = container.resolve("createUserRepo");
+      const repo1 = createRepo({ tenantId: "a" });
+      const repo2 = createRepo({ tenantId: "a" });
+
+      expect(repo1).toBeInstanceOf(UserRepo);
+      expect(repo1).not.toBe(repo2);
+      expect(repo1.deps.db).toBe(repo2.deps.db);
+    });
+
+    it("should throw when a dependency isn't passed in or registered", () => {
+      const container = createIocContainer()
+        // @ts-expect-error: Purposefully missing a required dependency
+        .register("createUserRepo", asFactory(createUserRepo, "tenantId"));
+
+      expect(() =>
+        container.resolve("createUserRepo")({ tenantId: "a" }),
+      ).toThrow(new ServiceNotFoundError(["db"]));
+    });
+  });
+
+  describe("keyed", () => {
+    type Database = { url: string };
+    const openDatabase = (deps: { url: string }): Database => ({
+      url: deps.url,
+    });
+
+    it("should resolve each variant by name", () => {
+      const container = createIocContainer().register(
+        "db",
+        keyed({
+          primary: parameterize(openDatabase, { url: "primary" }),
+          replica: parameterize(openDatabase, { url: "replica" }),
+        }),
+      );
+
+      expect(container.resolve("db", "primary")).toEqual({ url: "primary" });
+      expect(container.resolve("db", "replica")).toEqual({ url: "replica" });
+      expect(container.resolve("db", "replica")).toBe(
+        container.resolve("db").replica,
+      );
+    });
+
+    it("should inject a map of variants, only creating the ones that are used", () => {
+      const openReplica = mock(() => ({ url: "replica" }));
+      const container = createIocContainer()
+        .register("url", value("primary"))
+        .register("db", keyed({ primary: openDatabase, replica: openReplica }))
+        .register(
+          "userRepo",
+          (deps: { db: Keyed<"primary" | "replica", Database> }) => ({
+            url: deps.db.primary.url,
+          }),
+        );
+
+      expect(container.resolve("userRepo")).toEqual({ url: "primary" });
+      expect(openReplica).not.toBeCalled();
+    });
+
+    it("should throw when resolving a variant that doesn't exist", () => {
+      const container = createIocContainer().register(
+        "db",
+        keyed({ primary: () => ({}) }),
+      );
+
+      // @ts-expect-error: Purposefully resolving a missing variant
+      expect(() => container.resolve("db", "missing")).toThrow(
+        'Service "db" does not have a "missing" variant',
+      );
+    });
+
+    it("should dispose the variants that were created in reverse order", async () => {
+      const disposed: string[] = [];
+      const createVariant = (name: string) =>
+        disposable(
+          () => name,
+          (instance) => void disposed.push(instance),
+        );
+      const container = createIocContainer().register(
+        "db",
+        keyed({
+          a: createVariant("a"),
+          b: createVariant("b"),
+          c: createVariant("c"),
+        }),
+      );
+
+      container.resolve("db", "c");
+      container.resolve("db", "a");
+      await container.dispose();
+
+      expect(disposed).toEqual(["a", "c"]);
+    });
+
+    it("should dispose variants before the dependencies they created", async () => {
+      const disposed: string[] = [];
+      const container = createIocContainer()
+        .register(
+          "conn",
+          disposable(
+            () => "conn",
+            () => void disposed.push("conn"),
+          ),
+        )
+        .register(
+          "db",
+          keyed({
+            primary: disposable(
+              (deps: { conn: string }) => deps.conn,
+              () => void disposed.push("primary"),
+            ),
+          }),
+        );
+
+      container.resolve("db", "primary");
+      await container.dispose();
+
+      expect(disposed).toEqual(["primary", "conn"]);
+    });
+
+    it("should create variants through the container, recording their dependencies", () => {
+      const beforeResolve = mock();
+      const container = createIocContainer()
+        .use({ beforeResolve })
+        .register("conn", () => "conn")
+        .register(
+          "db",
+          keyed({ primary: (deps: { conn: string }) => ({ conn: deps.conn }) }),
+        );
+
+      container.resolve("db", "primary");
+
+      expect(beforeResolve.mock.calls.map(([{ key }]) => key)).toEqual([
+        "db",
+        "db",
+        "conn",
+      ]);
+      expect(container.inspect()[1]!.dependencies).toEqual(["conn"]);
+    });
+
+    it("should throw when resolving a variant of a service that isn't keyed", () => {
+      const container = createIocContainer().register("db", () => ({
+        primary: {},
+      }));
+
+      // @ts-expect-error: Purposefully resolving a variant of a service that isn't keyed
+      expect(() => container.resolve("db", "primary")).toThrow(
+        'Service "db" is not registered with "keyed"',
+      );
+    });
+  });
+
+  describe("registerIf", () => {
+    class S3Storage {}
+    class LocalStorage {}
+
+    it("should register the factory when the condition is true", () => {
+      const container = createIocContainer().registerIf(
+        true,
+        "storage",
+        S3Storage,
+        LocalStorage,
+      );
+
+      expect(container.resolve("storage")).toBeInstanceOf(S3Storage);
+    });
+
+    it("should register the fallback when the condition is false", () => {
+      const container = createIocContainer().registerIf(
+        false,
+        "storage",
+        S3Storage,
+        LocalStorage,
+      );
+
+      expect(container.resolve("storage")).toBeInstanceOf(LocalStorage);
+    });
+
+    it("should never call the factory that wasn't chosen", () => {
+      const createS3Storage = mock(() => new S3Storage());
+      const container = createIocContainer().registerIf(
+        false,
+        "storage",
+        createS3Storage,
+        LocalStorage,
+      );
+
+      container.resolveAll();
+
+      expect(createS3Storage).not.toBeCalled();
+    });
+  });
+
+  describe("modules", () => {
+    type Database = { name: string };
+    const createInvoiceRepo = (deps: { db: Database }) => ({ db: deps.db });
+    const billingModule = defineModule<{ db: Database }>()
+      .register("invoiceRepo", createInvoiceRepo)
+      .register({
+        billingService: (deps: {
+          invoiceRepo: ReturnType<typeof createInvoiceRepo>;
+        }) => ({ invoiceRepo: deps.invoiceRepo }),
+      });
+
+    it("should register the module's services using the container's services", () => {
+      const db: Database = { name: "db" };
+      const container = createIocContainer()
+        .register("db", value(db))
+        .install(billingModule);
+
+      const billingService = container.resolve("billingService");
+
+      expect(billingService.invoiceRepo).toBe(container.resolve("invoiceRepo"));
+      expect(billingService.invoiceRepo.db).toBe(db);
+    });
+
+    it("should create separate instances for each container it's installed in", () => {
+      const container1 = createIocContainer()
+        .register("db", () => ({ name: "1" }))
+        .install(billingModule);
+      const container2 = createIocContainer()
+        .register("db", () => ({ name: "2" }))
+        .install(billingModule);
+
+      expect(container1.resolve("invoiceRepo").db.name).toBe("1");
+      expect(container2.resolve("invoiceRepo").db.name).toBe("2");
+    });
+
+    it("should allow registering services that depend on the module", () => {
+      const container = createIocContainer()
+        .register("db", () => ({ name: "db" }))
+        .install(billingModule)
+        .register(
+          "report",
+          (deps: { invoiceRepo: { db: Database } }) => deps.invoiceRepo.db.name,
+        );
+
+      expect(container.resolve("report")).toBe("db");
+    });
+
+    it("should throw when installing a module that provides an existing service", () => {
+      const container = createIocContainer()
+        .register("db", () => ({ name: "db" }))
+        .register("invoiceRepo", () => ({}));
+
+      expect(() => container.install(billingModule)).toThrow(
+        'Service "invoiceRepo" already registered',
+      );
+    });
+  });
+
+  describe("createChild", () => {
+    it("should resolve services registered on the parent from the parent", () => {
+      const parent = createIocContainer().register("db", () => ({}));
+      const child = parent.createChild();
+
+      expect(child.resolve("db")).toBe(parent.resolve("db"));
+    });
+
+    it("should create services registered on the child as singletons owned by the child", () => {
+      const parent = createIocContainer().register("db", () => ({}));
+      const child = parent
+        .createChild()
+        .register("userRepo", (deps: { db: {} }) => ({ db: deps.db }));
+
+      expect(child.resolve("userRepo")).toBe(child.resolve("userRepo"));
+      expect(child.resolve("userRepo").db).toBe(parent.resolve("db"));
+      expect(parent.registrations).not.toHaveProperty("userRepo");
+      expect(child.inspect()).toContainEqual(
+        expect.objectContaining({ key: "userRepo", lifetime: "singleton" }),
+      );
+    });
+
+    it("should allow shadowing services registered on the parent", () => {
+      const parent = createIocContainer()
+        .register("tenant", value("default"))
+        .register(
+          "greeting",
+          (deps: { tenant: string }) => `Hi ${deps.tenant}`,
+        );
+      const child = parent
+        .createChild()
+        .register("tenant", value("acme"))
+        .register("welcome", (deps: { tenant: string }) => `Hi ${deps.tenant}`);
+
+      expect(child.resolve("tenant")).toBe("acme");
+      expect(child.resolve("welcome")).toBe("Hi acme");
+      // Services on the parent still receive the parent's dependencies
+      expect(child.resolve("greeting")).toBe("Hi default");
+      expect(parent.resolve("tenant")).toBe("default");
+    });
+
+    it("should throw when registering the same service twice on the child", () => {
+      const child = createIocContainer()
+        .createChild()
+        .register("tenant", value("a"));
+
+      expect(() => child.register("tenant", value("b"))).toThrow(
+        'Service "tenant" already registered',
+      );
+    });
+
+    it("should only dispose the services created by the child", async () => {
+      const dispose = mock();
+      const parent = createIocContainer().register(
+        "db",
+        disposable(() => "db", dispose),
+      );
+      const child = parent
+        .createChild()
+        .register(
+          "cache",
+          disposable(() => "cache", dispose),
+        )
+        .register("service", (deps: { db: string; cache: string }) => [
+          deps.db,
+          deps.cache,
+        ]);
+
+      child.resolve("service");
+      await child.dispose();
+
+      expect(dispose).toBeCalledTimes(1);
+      expect(dispose).toBeCalledWith("cache");
+    });
+  });
+
+  describe("scoped", () => {
+    it("should create one instance per scope", () => {
+      const createScope = createIocContainer()
+        .register("db", () => ({}))
+        .register(
+          "unitOfWork",
+          scoped((deps: { db: {} }) => ({ db: deps.db })),
+        )
+        .scope<{ requestId: string }>();
+
+      const scope1 = createScope({ requestId: "1" });
+      const scope2 = createScope({ requestId: "2" });
+
+      expect(scope1.resolve("unitOfWork")).toBe(scope1.resolve("unitOfWork"));
+      expect(scope1.resolve("unitOfWork")).not.toBe(
+        scope2.resolve("unitOfWork"),
+      );
+      expect(scope1.resolve("unitOfWork").db).toBe(
+        scope2.resolve("unitOfWork").db,
+      );
+    });
+
+    it("should throw when resolved from the container", () => {
+      const container = createIocContainer().register(
+        "unitOfWork",
+        scoped(() => ({})),
+      );
+
+      expect(() => container.resolve("unitOfWork")).toThrow(
+        'Service "unitOfWork" is scoped and can only be resolved from a scope',
+      );
+    });
+
+    it("should throw when a singleton depends on it", () => {
+      const createScope = createIocContainer()
+        .register(
+          "unitOfWork",
+          scoped(() => ({})),
+        )
+        .register("service", (deps: { unitOfWork: {} }) => deps.unitOfWork)
+        .scope<{}>();
+
+      expect(() => createScope({}).resolve("service")).toThrow(
+        'Service "unitOfWork" is scoped and can only be resolved from a scope',
+      );
+    });
+
+    it("should be skipped when resolving or validating all services on the container", async () => {
+      const container = createIocContainer()
+        .register("db", () => "db")
+        .register(
+          "unitOfWork",
+          scoped(() => ({})),
+        );
+
+      expect(container.resolveAll()).not.toHaveProperty("unitOfWork");
+      expect(Object.keys(await container.validate())).toEqual(["db"]);
+    });
+
+    it("should be disposed when the scope is disposed", async () => {
+      const dispose = mock();
+      const createScope = createIocContainer()
+        .register("unitOfWork", scoped(disposable(() => "uow", dispose)))
+        .scope<{}>();
+
+      const scope = createScope({});
+      scope.resolve("unitOfWork");
+      await scope.dispose();
+
+      expect(dispose).toBeCalledTimes(1);
+    });
+
+    it("should have a scoped lifetime", () => {
+      const container = createIocContainer().register(
+        "unitOfWork",
+        scoped(() => ({})),
+      );
+
+      expect(container.inspect()).toEqual([
+        expect.objectContaining({ key: "unitOfWork", lifetime: "scoped" }),
+      ]);
+    });
+
+    it("should only list the scope's instance when inspecting a scope", () => {
+      const scope = createIocContainer()
+        .register(
+          "unitOfWork",
+          scoped(() => ({})),
+        )
+        .scope<{}>()({});
+      scope.resolve("unitOfWork");
+
+      expect(scope.inspect()).toEqual([
+        expect.objectContaining({
+          key: "unitOfWork",
+          lifetime: "scoped",
+          instantiated: true,
+          depth: 1,
+        }),
+      ]);
+    });
+
+    it("should decorate each scope's instance when decorated by a scope", () => {
+      const createScope = createIocContainer()
+        .register(
+          "unitOfWork",
+          scoped(() => ({ id: "uow" })),
+        )
+        .scope<{ requestId: string }>()
+        .decorate("unitOfWork", (unitOfWork, { requestId }) => ({
+          id: `${requestId}:${unitOfWork.id}`,
+        }));
+
+      const scope1 = createScope({ requestId: "1" });
+      const scope2 = createScope({ requestId: "2" });
+
+      expect(scope1.resolve("unitOfWork")).toEqual({ id: "1:uow" });
+      expect(scope1.resolve("unitOfWork")).toBe(scope1.resolve("unitOfWork"));
+      expect(scope2.resolve("unitOfWork")).toEqual({ id: "2:uow" });
+    });
+
+    it("should dispose the scope's decorated instance", async () => {
+      const dispose = mock();
+      const scope = createIocContainer()
+        .register("unitOfWork", scoped(disposable(() => "uow", dispose)))
+        .scope<{}>()
+        .decorate(
+          "unitOfWork",
+          (unitOfWork) => `decorated(${unitOfWork})`,
+        )({});
+
+      scope.resolve("unitOfWork");
+      await scope.dispose();
+
+      expect(dispose).toBeCalledWith("decorated(uow)");
+    });
   });
 });
@@ -1,4 +1,17 @@
-import { createIocContainer, parameterize } from "..";
+import {
+  asFactory,
+  awaited,
+  createIocContainer,
+  defineModule,
+  keyed,
+  type Keyed,
+  lazy,
+  type Lazy,
+  optional,
+  parameterize,
+  scoped,
+  value,
+} from "..";
 
 // SERVICES
 
@@ -96,3 +109,262 @@ const scopeDeps = scope(
   .register("withTest", WithTest)
   .resolveAll();
 const { test: _ } = scopeDeps;
+
+async function openAsyncDatabase(): Promise<Database> {
+  throw Error("TODO");
+}
+
+const asyncContainer = createIocContainer()
+  .register("db", awaited(openAsyncDatabase))
+  .register("userRepo", createUserRepo);
+asyncContainer.resolve("db").query();
+void asyncContainer.resolveAsync("userRepo").then((repo) => repo.get(""));
+
+createIocContainer()
+  .register("db", openAsyncDatabase)
+  // @ts-expect-error: Without awaited, dependents receive a promise
+  .register("userRepo", createUserRepo);
+
+// @ts-expect-error: Only factories returning promises can be awaited
+awaited(openDatabase);
+
+const valueContainer = createIocContainer().register({
+  config: value({ path: "test.db" }),
+  openDatabase: value(openDatabase),
+});
+valueContainer.resolve("config").path satisfies string;
+valueContainer.resolve("openDatabase") satisfies () => Database;
+
+containerB.override("db", openDatabase);
+containerB.override("userRepo", createUserRepo);
+// @ts-expect-error: Overrides must return the same type as the original service
+containerB.override("db", createOtherDep);
+// @ts-expect-error: Overrides can only depend on registered services
+containerB.override("db", openDatabase2);
+asyncContainer.override("db", awaited(openAsyncDatabase));
+
+containerB.decorate("userRepo", (userRepo, { db }) => ({
+  ...userRepo,
+  get: (id) => db.query()[0] ?? userRepo.get(id),
+}));
+// @ts-expect-error: Decorators must return something compatible with the original service
+containerB.decorate("userRepo", () => ({}));
+
+type HealthCheck = { check: () => boolean };
+function createDatabaseHealthCheck(_deps: { db: Database }): HealthCheck {
+  throw Error("TODO");
+}
+type DiskHealthCheck = HealthCheck & { path: string };
+function createDiskHealthCheck(): DiskHealthCheck {
+  throw Error("TODO");
+}
+
+const healthChecks = containerB
+  .registerMany("healthChecks", createDatabaseHealthCheck)
+  .registerMany("healthChecks", createDiskHealthCheck)
+  .resolve("healthChecks");
+healthChecks satisfies Array<HealthCheck>;
+// @ts-expect-error: Collections contain every type registered
+healthChecks satisfies Array<DiskHealthCheck>;
+
+containerB
+  .scope<{ path: string }>()
+  .registerMany("healthChecks", createDiskHealthCheck)
+  // @ts-expect-error: Collections can only depend on registered services
+  .registerMany("healthChecks", (_deps: { missing: string }) => ({
+    check: () => true,
+  }));
+
+type Mailer = { send: () => void };
+function createMailer(_deps: { db: Database; smtp?: Mailer }): Mailer {
+  throw Error("TODO");
+}
+class OptionalMailer {
+  constructor(_deps: { smtp?: Mailer }) {}
+}
+
+containerB.register("mailer", optional(createMailer, "smtp"));
+containerB.register({ mailer: optional(OptionalMailer, "smtp") });
+// @ts-expect-error: Optional dependencies that aren't registered must be listed with optional
+containerB.register({ mailer: OptionalMailer });
+// @ts-expect-error: Optional dependencies that aren't registered must be listed with optional
+containerB.register("mailer", createMailer);
+createIocContainer()
+  // @ts-expect-error: Optional dependencies that aren't registered must be listed with optional
+  .register("mailer", (deps: { smtp?: Mailer }) => deps.smtp);
+containerB
+  .register("smtp", optional(createMailer, "smtp"))
+  .register("mailer", OptionalMailer);
+containerB
+  .scope<{ request: string }>()
+  .register("mailer", optional(createMailer, "smtp"));
+containerB
+  .register("smtp", createOtherDep)
+  // @ts-expect-error: Optional dependencies must have the correct type when registered
+  .register("mailer", OptionalMailer);
+// @ts-expect-error: Only optional dependencies can be passed to optional
+optional(createMailer, "db");
+
+const lazyContainer = containerB.register("lazyRepo", lazy(createUserRepo));
+lazyContainer.resolve("lazyRepo") satisfies Lazy<UserRepo>;
+lazyContainer.resolve("lazyRepo")() satisfies UserRepo;
+lazyContainer.register(
+  "lazyDependent",
+  (_deps: { lazyRepo: Lazy<UserRepo> }) => 0,
+);
+lazyContainer.register(
+  "lazyDependent",
+  // @ts-expect-error: Lazy services are not resolved until called
+  (_deps: { lazyRepo: UserRepo }) => 0,
+);
+// @ts-expect-error: Lazy services still require their dependencies
+createIocContainer().register("lazyRepo", lazy(createUserRepo));
+createIocContainer()
+  .register(
+    "lazyConfig",
+    lazy(async () => ({ port: 3000 })),
+  )
+  .resolve("lazyConfig")() satisfies Promise<{ port: number }>;
+// @ts-expect-error: Lazy services can't be async
+lazy(awaited(async () => ({ port: 3000 })));
+
+const createRepo = createIocContainer()
+  .register("createUserRepo", asFactory(createUserRepo, "db"))
+  .resolve("createUserRepo");
+createRepo({ db: openDatabase() }) satisfies UserRepo;
+// @ts-expect-error: Arguments must be passed in
+createRepo({});
+createIocContainer().register(
+  "createUser",
+  // @ts-expect-error: Dependencies that aren't arguments must be registered
+  asFactory((_deps: { db: Database; name: string }) => 0, "name"),
+);
+// @ts-expect-error: Arguments must be dependencies of the factory
+asFactory(createUserRepo, "missing");
+
+const keyedContainer = createIocContainer().register(
+  "db",
+  keyed({
+    primary: openDatabase,
+    replica: parameterize(openDatabase2, { path: "replica" }),
+  }),
+);
+keyedContainer.resolve("db", "replica") satisfies Database;
+keyedContainer.resolve("db") satisfies Keyed<"primary" | "replica", Database>;
+// @ts-expect-error: Only registered variants can be resolved
+keyedContainer.resolve("db", "analytics");
+keyedContainer
+  .register("config", () => ({ port: 3000 }))
+  // @ts-expect-error: Only services registered with keyed have variants
+  .resolve("config", "port");
+keyedContainer.register(
+  "userRepo",
+  (_deps: { db: Keyed<"primary" | "replica", Database> }) => 0,
+);
+keyedContainer.register(
+  "userRepo",
+  // @ts-expect-error: Dependents can't require variants that aren't registered
+  (_deps: { db: Keyed<"analytics", Database> }) => 0,
+);
+createIocContainer().register(
+  "db",
+  // @ts-expect-error: Keyed services require every variant's dependencies
+  keyed({ primary: openDatabase, replica: openDatabase2 }),
+);
+
+type Storage = { upload: () => void };
+class S3Storage implements Storage {
+  upload() {}
+  bucket = "";
+}
+function createLocalStorage(_deps: { db: Database }): Storage {
+  throw Error("TODO");
+}
+
+const storageContainer = containerB.registerIf(
+  Math.random() > 0.5,
+  "storage",
+  S3Storage,
+  createLocalStorage,
+);
+storageContainer.resolve("storage") satisfies S3Storage | Storage;
+// @ts-expect-error: The service could be either branch
+storageContainer.resolve("storage") satisfies S3Storage;
+storageContainer.register("uploads", (_deps: { storage: Storage }) => 0);
+createIocContainer().registerIf(
+  true,
+  "storage",
+  S3Storage,
+  // @ts-expect-error: Both branches must have their dependencies registered
+  createLocalStorage,
+);
+
+type Invoice = { id: string };
+function createInvoiceRepo(_deps: { db: Database }): { list: () => Invoice[] } {
+  throw Error("TODO");
+}
+class BillingService {
+  constructor(_deps: { invoiceRepo: { list: () => Invoice[] } }) {}
+}
+const billingModule = defineModule<{ db: Database }>()
+  .register("invoiceRepo", createInvoiceRepo)
+  .register({ billingService: BillingService });
+
+const billingContainer = createIocContainer()
+  .register("db", openDatabase)
+  .install(billingModule);
+billingContainer.resolve("billingService") satisfies BillingService;
+billingContainer.resolve("db") satisfies Database;
+// @ts-expect-error: The module's requirements must be registered
+createIocContainer().install(billingModule);
+// @ts-expect-error: The module's requirements must have the correct type
+createIocContainer().register("db", createOtherDep).install(billingModule);
+defineModule<{ db: Database }>()
+  // @ts-expect-error: Module services can only depend on required or registered services
+  .register("userRepo", (_deps: { missing: string }) => 0);
+
+const childContainer = containerB
+  .createChild()
+  .register("tenant", () => "acme")
+  .register("userRepo", (_deps: { tenant: string }) => 0);
+childContainer.resolve("db") satisfies Database;
+childContainer.resolve("userRepo") satisfies number;
+// @ts-expect-error: Services registered on a child aren't added to the parent
+containerB.resolve("tenant");
+
+const scopedContainer = containerB.register(
+  "unitOfWork",
+  scoped(createUserRepo),
+);
+scopedContainer
+  .scope<{ requestId: string }>()({ requestId: "" })
+  .resolve("unitOfWork") satisfies UserRepo;
+
+const requestScope = containerB.scope<{ requestId: string }>();
+const transactionScope = requestScope
+  .scope<{ tx: string }>()
+  .register(
+    "txRepo",
+    (_deps: { db: Database; requestId: string; tx: string }) => 0,
+  );
+transactionScope(requestScope({ requestId: "" }), { tx: "" }).resolve(
+  "txRepo",
+) satisfies number;
+// @ts-expect-error: Nested scopes require the parent scope's container
+transactionScope({ tx: "" });
+// @ts-expect-error: The container must be from the parent scope
+transactionScope(createIocContainer(), { tx: "" });
+requestScope
+  .scope<{ tx: string }>()
+  // @ts-expect-error: Nested scopes can only depend on registered services
+  .register("txRepo", (_deps: { missing: string }) => 0);
+
+containerB.scope<{ request: string; user: User }>(["request", "user"]);
+containerB.scope<{ request: string; user: User }>(["user", "request"]);
+// @ts-expect-error: Only the scope's dependencies can be listed
+containerB.scope<{ request: string }>(["request", "user"]);
+// @ts-expect-error: Every dependency must be listed
+containerB.scope<{ request: string; user: User }>(["request"]);
+requestScope.scope<{ tx: string; savepoint: string }>(["savepoint", "tx"]);
+// @ts-expect-error: Every dependency of a nested scope must be listed
+requestScope.scope<{ tx: string; savepoint: string }>(["tx"]);
@@ -0,0 +1,16 @@
+import type { IocContainer } from "./index.ts";
+
+/**
+ * Returns the container of the scope active in the current async context.
+ * The core library doesn't depend on any runtime APIs, so this always returns
+ * `undefined` until `@aklinker1/zero-ioc/async-scope` is imported.
+ */
+export let getAmbientScope: () => IocContainer<any> | undefined = () =>
+  undefined;
+
+/** Set how the container of the active scope is looked up. */
+export function setAmbientScope(
+  getter: () => IocContainer<any> | undefined,
+): void {
+  getAmbientScope = getter;
+}
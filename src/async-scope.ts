@@ -0,0 +1,93 @@
+/**
+ * Ambient scopes, backed by `AsyncLocalStorage` from `node:async_hooks`. Code
+ * running inside {@link runInScope} can access the scope's container with
+ * {@link currentScope} instead of passing it down through every function
+ * call.
+ *
+ * @module
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { setAmbientScope } from "./ambient.ts";
+import type { IocContainer, IocScope } from "./index.ts";
+
+type ActiveScope = {
+  scope: IocScope<any, any>;
+  container: IocContainer<any>;
+  /** The scope that was active when this one was created. */
+  outer: ActiveScope | undefined;
+};
+
+const storage = new AsyncLocalStorage<ActiveScope>();
+
+setAmbientScope(() => storage.getStore()?.container);
+
+/**
+ * Create a container from a scope and run a function inside it. Until the
+ * function returns or throws, {@link currentScope} returns the container, and
+ * services registered with `scoped` on a parent container are resolved from
+ * it. Afterwards, the container is disposed.
+ *
+ * Scopes can be nested: the outer scope becomes active again when the inner
+ * function finishes.
+ *
+ * @param scope The scope to create a container from.
+ * @param deps The scope's dependencies.
+ * @param fn The function to run inside the scope.
+ * @returns the value returned by `fn`.
+ *
+ * @example
+ * ```ts
+ * import { runInScope } from "@aklinker1/zero-ioc/async-scope";
+ *
+ * const requestScope = container.scope<{ request: Request }>();
+ *
+ * Bun.serve({
+ *   fetch: (request) =>
+ *     runInScope(requestScope, { request }, () => handleRequest()),
+ * });
+ * ```
+ */
+export async function runInScope<
+  TDeps extends Record<string, any>,
+  TInstances extends Record<string, any>,
+  TResult,
+>(
+  scope: IocScope<TDeps, TInstances>,
+  deps: TDeps,
+  fn: (container: IocContainer<TInstances>) => TResult | Promise<TResult>,
+): Promise<TResult> {
+  const container = scope(deps);
+  try {
+    const active = { scope, container, outer: storage.getStore() };
+    return await storage.run(active, () => fn(container));
+  } finally {
+    await container.dispose();
+  }
+}
+
+/**
+ * Get the container of the innermost scope active in the current async
+ * context that was created from `scope`.
+ *
+ * @param scope The scope the active container was created from.
+ * @returns the container created by {@link runInScope}.
+ * @throws when no container created from `scope` is active.
+ *
+ * @example
+ * ```ts
+ * import { currentScope } from "@aklinker1/zero-ioc/async-scope";
+ *
+ * function getCurrentUser() {
+ *   return currentScope(requestScope).resolve("authService").getUser();
+ * }
+ * ```
+ */
+export function currentScope<
+  TDeps extends Record<string, any>,
+  TInstances extends Record<string, any>,
+>(scope: IocScope<TDeps, TInstances>): IocContainer<TInstances> {
+  for (let active = storage.getStore(); active; active = active.outer) {
+    if (active.scope === scope) return active.container;
+  }
+  throw Error("Scope is not active. Use runInScope to activate it.");
+}
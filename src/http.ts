@@ -0,0 +1,230 @@
+/**
+ * Adapters for creating a scope for each HTTP request, and disposing it once
+ * the response has been sent.
+ *
+ * @module
+ */
+import type { IocContainer, IocScope } from "./index.ts";
+
+/**
+ * Wrap a Fetch API request handler, like the `fetch` function passed to
+ * `Bun.serve` or `Deno.serve`, so every request gets its own container
+ * created from `scope`. The container is disposed after the response body has
+ * been sent, or if the handler throws.
+ *
+ * If disposing the container fails, the error is passed to
+ * `options.onDisposeError`. Without it, the wrapped handler rejects, or the
+ * response body errors if it was streamed.
+ *
+ * @param scope The scope to create a container from for each request.
+ * @param getDeps Returns the scope's dependencies for a request.
+ * @param handler The request handler, which receives the request's container.
+ * @param options Options for handling errors.
+ * @returns the wrapped request handler.
+ *
+ * @example
+ * ```ts
+ * import { createFetchHandler } from "@aklinker1/zero-ioc/http";
+ *
+ * const requestScope = container.scope<{ request: Request }>();
+ *
+ * Bun.serve({
+ *   fetch: createFetchHandler(
+ *     requestScope,
+ *     (request) => ({ request }),
+ *     (request, container) => container.resolve("router").handle(request),
+ *   ),
+ * });
+ * ```
+ */
+export function createFetchHandler<
+  TDeps extends Record<string, any>,
+  TInstances extends Record<string, any>,
+>(
+  scope: IocScope<TDeps, TInstances>,
+  getDeps: (request: Request) => TDeps,
+  handler: (
+    request: Request,
+    container: IocContainer<TInstances>,
+  ) => Response | Promise<Response>,
+  options?: HttpAdapterOptions,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const container = scope(getDeps(request));
+
+    let response: Response;
+    try {
+      response = await handler(request, container);
+    } catch (error) {
+      await disposeRequestContainer(container, options);
+      throw error;
+    }
+
+    if (!response.body) {
+      await disposeRequestContainer(container, options);
+      return response;
+    }
+
+    // Services may still be used while the body is streamed, so wait until
+    // it has been sent before disposing the container.
+    const transformer: DisposingTransformer = {
+      flush: () => disposeRequestContainer(container, options),
+      cancel: () => disposeRequestContainer(container, options),
+    };
+    const body = response.body.pipeThrough(new TransformStream(transformer));
+    return new Response(body, response);
+  };
+}
+
+/**
+ * Newer runtimes call `cancel` when the client disconnects before the body
+ * has been sent, but TypeScript's `Transformer` type doesn't include it yet.
+ */
+type DisposingTransformer = Transformer<Uint8Array, Uint8Array> & {
+  cancel: (reason: unknown) => Promise<void>;
+};
+
+/** Options shared by all the HTTP adapters. */
+export type HttpAdapterOptions = {
+  /**
+   * Called when disposing a request's container fails. The response has
+   * usually been sent by then, so this is the only place the error can be
+   * handled, like logging it.
+   */
+  onDisposeError?: (error: unknown) => void;
+};
+
+/**
+ * Create Express-style middleware, compatible with `node:http` servers, that
+ * creates a container from `scope` for each request and sets it to
+ * `req.container`. The container is disposed when the response is closed.
+ *
+ * The response has already been sent when the container is disposed, so
+ * there's nowhere to throw errors disposing it. Instead, they're passed to
+ * `options.onDisposeError`, which is required.
+ *
+ * @param scope The scope to create a container from for each request.
+ * @param getDeps Returns the scope's dependencies for a request.
+ * @param options Options for handling errors.
+ * @returns the middleware.
+ *
+ * @example
+ * ```ts
+ * import { expressMiddleware } from "@aklinker1/zero-ioc/http";
+ *
+ * const requestScope = container.scope<{ req: express.Request }>();
+ *
+ * app.use(
+ *   expressMiddleware(requestScope, (req) => ({ req }), {
+ *     onDisposeError: (error) => logger.error(error),
+ *   }),
+ * );
+ * app.get("/users", (req, res) => {
+ *   res.json(req.container.resolve("userRepo").list());
+ * });
+ * ```
+ */
+export function expressMiddleware<
+  TDeps extends Record<string, any>,
+  TInstances extends Record<string, any>,
+  TRequest extends object,
+  TResponse extends ExpressResponse,
+>(
+  scope: IocScope<TDeps, TInstances>,
+  getDeps: (req: TRequest, res: TResponse) => TDeps,
+  options: Required<HttpAdapterOptions>,
+): (req: TRequest, res: TResponse, next: (error?: unknown) => void) => void {
+  // A rejected disposal would be unhandled and could end the process
+  if (typeof options?.onDisposeError !== "function") {
+    throw Error('expressMiddleware requires an "onDisposeError" option');
+  }
+
+  return (req, res, next) => {
+    let container: IocContainer<TInstances>;
+    try {
+      container = scope(getDeps(req, res));
+    } catch (error) {
+      return next(error);
+    }
+
+    (req as TRequest & { container: IocContainer<TInstances> }).container =
+      container;
+    res.once("close", () => {
+      void disposeRequestContainer(container, options);
+    });
+    next();
+  };
+}
+
+/** The parts of an Express or `node:http` response used by {@link expressMiddleware}. */
+export type ExpressResponse = {
+  once(event: "close", listener: () => void): unknown;
+};
+
+/**
+ * Create Hono-style middleware that creates a container from `scope` for
+ * each request and sets it to the context's `container` variable. The
+ * container is disposed after the downstream handlers finish.
+ *
+ * If disposing the container fails, the error is passed to
+ * `options.onDisposeError`. Without it, the middleware throws, so the error
+ * is handled by Hono's `onError`.
+ *
+ * @param scope The scope to create a container from for each request.
+ * @param getDeps Returns the scope's dependencies for a request.
+ * @param options Options for handling errors.
+ * @returns the middleware.
+ *
+ * @example
+ * ```ts
+ * import { honoMiddleware } from "@aklinker1/zero-ioc/http";
+ *
+ * const requestScope = container.scope<{ request: Request }>();
+ *
+ * type Env = { Variables: { container: ReturnType<typeof requestScope> } };
+ *
+ * const app = new Hono<Env>()
+ *   .use(honoMiddleware(requestScope, (c) => ({ request: c.req.raw })))
+ *   .get("/users", (c) => c.json(c.var.container.resolve("userRepo").list()));
+ * ```
+ */
+export function honoMiddleware<
+  TDeps extends Record<string, any>,
+  TInstances extends Record<string, any>,
+  TContext extends HonoContext,
+>(
+  scope: IocScope<TDeps, TInstances>,
+  getDeps: (c: TContext) => TDeps,
+  options?: HttpAdapterOptions,
+): (c: TContext, next: () => Promise<void>) => Promise<void> {
+  return async (c, next) => {
+    const container = scope(getDeps(c));
+    c.set("container", container);
+    try {
+      await next();
+    } finally {
+      await disposeRequestContainer(container, options);
+    }
+  };
+}
+
+/** The parts of a Hono context used by {@link honoMiddleware}. */
+export type HonoContext = {
+  set(key: "container", value: IocContainer<any>): void;
+};
+
+/**
+ * Dispose a request's container, passing errors to `onDisposeError` when it's
+ * set instead of throwing them.
+ */
+async function disposeRequestContainer(
+  container: IocContainer<any>,
+  options: HttpAdapterOptions | undefined,
+): Promise<void> {
+  try {
+    await container.dispose();
+  } catch (error) {
+    if (!options?.onDisposeError) throw error;
+    options.onDisposeError(error);
+  }
+}
@@ -1,3 +1,5 @@
+import { getAmbientScope } from "./ambient.ts";
+
 /**
  * Inversion of Control (IoC) container that lets you register and resolve
  * dependencies.
@@ -11,7 +13,7 @@ export type IocContainer<TInstances extends Record<string, any>> = {
    */
   register<
     TServiceName extends string,
-    TFactory extends Factory<TInstances, any>,
+    TFactory extends Factory<ProvidedDependencies<TInstances, TFactory>, any>,
   >(
     key: TServiceName,
     factory: TFactory,
@@ -23,7 +25,14 @@ export type IocContainer<TInstances extends Record<string, any>> = {
         ? TInstances[key]
         : never;
   }>;
-  register<TNewFactories extends Record<string, Factory<TInstances, any>>>(
+  register<
+    TNewFactories extends {
+      [Key in keyof TNewFactories]: Factory<
+        ProvidedDependencies<TInstances, TNewFactories[Key]>,
+        any
+      >;
+    },
+  >(
     factories: TNewFactories,
   ): IocContainer<{
     // Equivalent to `TInstances & { [key]: GetInstance<...> }`, but types look nicer in IDE and error messages
@@ -36,6 +45,96 @@ export type IocContainer<TInstances extends Record<string, any>> = {
         : never;
   }>;
 
+  /**
+   * Add a service to a collection. Unlike `register`, the same key can be
+   * used multiple times, and dependents receive an array containing an
+   * instance from every factory registered under the key, in the order they
+   * were registered.
+   *
+   * All the instances in a collection are created together the first time
+   * the collection is resolved.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .registerMany("healthChecks", createDatabaseHealthCheck)
+   *   .registerMany("healthChecks", createDiskHealthCheck)
+   *   .register("healthService", (deps: { healthChecks: HealthCheck[] }) => ...);
+   * ```
+   */
+  registerMany<
+    TServiceName extends string,
+    TFactory extends Factory<ProvidedDependencies<TInstances, TFactory>, any>,
+  >(
+    key: TServiceName,
+    factory: TFactory,
+  ): IocContainer<{
+    [key in keyof TInstances | TServiceName]: key extends TServiceName
+      ? Array<GetCollectionItem<TInstances, key> | GetInstance<TFactory>>
+      : key extends keyof TInstances
+        ? TInstances[key]
+        : never;
+  }>;
+
+  /**
+   * Register one of two factories under a key, depending on a condition, so
+   * a single container can be configured for different environments. The
+   * service's type is the union of both factories' instances.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("config", value(config))
+   *   .registerIf(config.s3Bucket != null, "storage", S3Storage, LocalStorage)
+   *   .register("uploadService", (deps: { storage: Storage }) => ...);
+   * ```
+   */
+  registerIf<
+    TServiceName extends string,
+    TFactory extends Factory<ProvidedDependencies<TInstances, TFactory>, any>,
+    TFallback extends Factory<ProvidedDependencies<TInstances, TFallback>, any>,
+  >(
+    condition: boolean,
+    key: TServiceName,
+    factory: TFactory,
+    fallback: TFallback,
+  ): IocContainer<{
+    [key in keyof TInstances | TServiceName]: key extends TServiceName
+      ? GetInstance<TFactory> | GetInstance<TFallback>
+      : key extends keyof TInstances
+        ? TInstances[key]
+        : never;
+  }>;
+
+  /**
+   * Register all the services provided by a module created with
+   * {@link defineModule}. The container must already have the services the
+   * module requires, or else you will get a type error.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .install(billingModule);
+   *
+   * const billingService = container.resolve("billingService");
+   * ```
+   */
+  install<
+    TRequires extends Record<string, any>,
+    TProvides extends Record<string, any>,
+  >(
+    module: IocModule<TRequires, TProvides> &
+      MissingRequirements<TInstances, TRequires>,
+  ): IocContainer<{
+    [key in keyof TInstances | keyof TProvides]: key extends keyof TProvides
+      ? TProvides[key]
+      : key extends keyof TInstances
+        ? TInstances[key]
+        : never;
+  }>;
+
   /**
    * Define a scope with an initial set of dependencies that will be provided later in the application's lifecycle, not during startup.
    *
@@ -61,9 +160,15 @@ export type IocContainer<TInstances extends Record<string, any>> = {
    * })
    * ```
    *
+   * @param keys The keys of the scope's dependencies, listing each key once.
+   * When provided, creating the scope throws a {@link ScopeDependencyError}
+   * if any dependencies are missing or unexpected, instead of failing when a
+   * service is resolved.
    * @returns an {@link IocContainer} containing the scope's dependencies and registrations.
    */
-  scope<TDeps extends Record<string, any>>(): IocScope<
+  scope<TDeps extends Record<string, any>>(
+    keys?: ScopeDependencyKeys<TDeps>,
+  ): IocScope<
     TDeps,
     {
       [key in keyof TInstances | keyof TDeps]: key extends keyof TDeps
@@ -74,13 +179,61 @@ export type IocContainer<TInstances extends Record<string, any>> = {
     }
   >;
 
+  /**
+   * Create a container that inherits all the services registered on this
+   * one. Services registered on the child are singletons owned by the child,
+   * and can shadow services registered on the parent. Services registered on
+   * the parent are shared with it, and still receive the parent's
+   * dependencies.
+   *
+   * Unlike scopes, children don't require any dependencies when they're
+   * created, so they're useful for long-lived containers like one per tenant
+   * or test suite. Disposing a child only disposes the services it created.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .register("userRepo", createUserRepo);
+   *
+   * const tenantContainer = container
+   *   .createChild()
+   *   .register("config", value(tenantConfig))
+   *   .register("billingService", createBillingService);
+   * ```
+   */
+  createChild(): IocContainer<TInstances>;
+
   /**
    * Get an already instantiated service or create a new instance of one. When
    * creating an instance, all dependencies it relies on are also resolved.
    *
-   * Attempting to resolve a key that has not been registered will throw an error.
+   * Attempting to resolve a key that has not been registered will throw a
+   * {@link ServiceNotFoundError}, and services that depend on themselves will
+   * throw a {@link CircularDependencyError}.
    */
   resolve<Key extends keyof TInstances>(key: Key): TInstances[Key];
+  /**
+   * Resolve a single variant of a service registered with {@link keyed}. Only
+   * the requested variant is created.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer().register(
+   *   "db",
+   *   keyed({ primary: openPrimaryDatabase, replica: openReplicaDatabase }),
+   * );
+   *
+   * const replica = container.resolve("db", "replica");
+   * ```
+   */
+  resolve<
+    Key extends KeyedServiceKeys<TInstances>,
+    Variant extends Exclude<keyof TInstances[Key], typeof KEYED_SYMBOL>,
+  >(
+    key: Key,
+    variant: Variant,
+  ): TInstances[Key][Variant];
 
   /**
    * A proxy object giving you access to all registered services. It can be
@@ -110,8 +263,276 @@ export type IocContainer<TInstances extends Record<string, any>> = {
    *
    * Can be useful if a library doesn't work well with Proxies, and you need a
    * real object containing all dependencies.
+   *
+   * Services registered with {@link scoped} are only included when resolving
+   * from a scope.
    */
   resolveAll(): TInstances;
+
+  /**
+   * Same as {@link IocContainer#resolve}, but async services registered with
+   * {@link awaited} are awaited before the service is created, so dependents
+   * receive the resolved instance instead of a promise.
+   *
+   * Only the async services `key` depends on are resolved. When a factory
+   * needs an async service that hasn't been resolved yet, the service is
+   * awaited and the factory is called again. Async services the factory only
+   * reads after it returns aren't awaited.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", awaited(openDatabase))
+   *   .register("userRepo", createUserRepo);
+   *
+   * const userRepo = await container.resolveAsync("userRepo");
+   * ```
+   */
+  resolveAsync<Key extends keyof TInstances>(
+    key: Key,
+  ): Promise<TInstances[Key]>;
+
+  /**
+   * Same as {@link IocContainer#resolveAll}, but async services registered
+   * with {@link awaited} are awaited.
+   */
+  resolveAllAsync(): Promise<TInstances>;
+
+  /**
+   * Create a copy of the container with the same registrations, but none of
+   * its instances. Services resolved from the fork are created from scratch,
+   * including singletons from parent containers.
+   */
+  fork(): IocContainer<TInstances>;
+
+  /**
+   * Fork the container and replace a registered service with a different
+   * implementation. Any services that depend on it are created using the
+   * replacement. The original container is not modified.
+   *
+   * Useful in tests for swapping out services with fakes.
+   *
+   * @example
+   * ```ts
+   * import { container } from "./main";
+   *
+   * const testContainer = container.override("db", createInMemoryDatabase);
+   * const userRepo = testContainer.resolve("userRepo"); // Uses the in-memory database
+   * ```
+   */
+  override<Key extends keyof TInstances>(
+    key: Key,
+    factory:
+      | Factory<TInstances, TInstances[Key]>
+      | (Factory<TInstances, Promise<TInstances[Key]>> & {
+          readonly [ASYNC_SYMBOL]: true;
+        }),
+  ): IocContainer<TInstances>;
+
+  /**
+   * Wrap a registered service, keeping the same key so dependents receive the
+   * wrapped instance. The decorator receives the original instance and the
+   * container's services, and must return something compatible with the
+   * original service.
+   *
+   * Services can be decorated multiple times. Decorators are applied in the
+   * order they were added, so the last decorator wraps all the others.
+   *
+   * When decorating a service registered on a parent container, the parent is
+   * not modified: the scope gets its own decorated instance. The parent still
+   * owns the original instance, so the decorated instance is only disposed
+   * with the scope when `dispose` is passed. The same goes for services
+   * registered with {@link value}, which are owned by the caller.
+   *
+   * @param key The key of the service to decorate.
+   * @param decorator Wraps the service's instance.
+   * @param dispose Called with the decorated instance when the container is
+   * disposed, instead of disposing it automatically.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .register("userRepo", createUserRepo)
+   *   .decorate("userRepo", (userRepo, { cache }) => withCaching(userRepo, cache));
+   * ```
+   */
+  decorate<Key extends keyof TInstances>(
+    key: Key,
+    decorator: Decorator<TInstances, TInstances[Key]>,
+    dispose?: (instance: TInstances[Key]) => void | Promise<void>,
+  ): IocContainer<TInstances>;
+
+  /**
+   * Add hooks that are called whenever the container creates an instance of a
+   * service: once for singletons and scoped services, and every time a
+   * transient service is resolved. Values are never created, so these hooks
+   * aren't called for them.
+   *
+   * `onResolve` is called every time any service is resolved instead,
+   * including when the instance is cached.
+   *
+   * Interceptors added to a container also apply to services created by its
+   * scopes.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .use({
+   *     // Wrap every repository in a logging proxy
+   *     afterResolve: ({ key, instance }) =>
+   *       key.endsWith("Repo") ? withLogging(instance) : instance,
+   *     onError: ({ key, error }) =>
+   *       logger.error({ key, error }, "Failed to create service"),
+   *   })
+   *   .register("db", openDatabase)
+   *   .register("userRepo", createUserRepo);
+   * ```
+   */
+  use(interceptor: ResolveInterceptor): IocContainer<TInstances>;
+
+  /**
+   * Eagerly resolve every singleton and scoped service, awaiting async
+   * services, to make sure they can all be created. Unlike
+   * {@link IocContainer#resolveAll}, it doesn't stop at the first factory that
+   * throws.
+   *
+   * @returns how long each service took to construct, in milliseconds.
+   * @throws {ContainerValidationError} containing every service that failed to
+   * resolve, keyed by service name.
+   *
+   * @example
+   * ```ts
+   * const durations = await container.validate();
+   * // { db: 12.3, userRepo: 0.1, ... }
+   * ```
+   */
+  validate(): Promise<Record<string, number>>;
+
+  /**
+   * List every service that can be resolved from the container, including
+   * services registered on parent containers, in the order they were
+   * registered.
+   *
+   * Useful for debugging why a service was constructed, or what it depends
+   * on.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .register("userRepo", createUserRepo);
+   * container.resolve("userRepo");
+   *
+   * container.inspect();
+   * // [
+   * //   { key: "db", lifetime: "singleton", instantiated: true, depth: 0, dependencies: [] },
+   * //   { key: "userRepo", lifetime: "singleton", instantiated: true, depth: 0, dependencies: ["db"] },
+   * // ]
+   * ```
+   */
+  inspect(): ServiceInfo[];
+
+  /**
+   * Dispose of every service this container has instantiated, in the reverse
+   * order they were created, so services are torn down before the services
+   * they depend on.
+   *
+   * For each instance, the container calls the disposer passed to
+   * {@link disposable}, or the first hook it finds on the instance:
+   * `[Symbol.asyncDispose]`, `[Symbol.dispose]`, `dispose`, or `close`.
+   * Instances without a hook are dropped from the cache.
+   *
+   * Containers returned by a {@link IocScope} only dispose the services they
+   * created, not the singletons owned by the parent container.
+   *
+   * If any disposer throws, the remaining services are still disposed and an
+   * `AggregateError` containing every failure is thrown.
+   *
+   * @example
+   * ```ts
+   * const container = createIocContainer()
+   *   .register("db", openDatabase)
+   *   .register("userRepo", createUserRepo);
+   *
+   * process.on("SIGTERM", () => container.dispose());
+   * ```
+   */
+  dispose(): Promise<void>;
+
+  /**
+   * Same as {@link IocContainer#dispose}, allowing containers to be used with
+   * `await using`.
+   */
+  [Symbol.asyncDispose](): Promise<void>;
+};
+
+/**
+ * How long an instance of a service lives:
+ * - `"singleton"`: Created once per container
+ * - `"transient"`: Created every time it's resolved
+ * - `"scoped"`: Created once per scope
+ * - `"value"`: Registered with {@link value}, never created by the container
+ */
+export type ServiceLifetime = "singleton" | "transient" | "scoped" | "value";
+
+/** Information about the service being created, passed to a {@link ResolveInterceptor}. */
+export type ResolveContext = {
+  /** The key the service was registered with. */
+  key: string;
+  lifetime: ServiceLifetime;
+  /** The scope level the service is registered on, `0` for the root container. */
+  depth: number;
+};
+
+/**
+ * Hooks called when a container resolves or creates an instance of a
+ * service, added via {@link IocContainer#use}.
+ */
+export type ResolveInterceptor = {
+  /**
+   * Called every time a service is resolved, including when the instance is
+   * cached and when it's passed to a dependent, like for counting
+   * resolutions.
+   */
+  onResolve?: (context: ResolveContext & { instance: any }) => void;
+  /** Called before the service's factory is called. */
+  beforeResolve?: (context: ResolveContext) => void;
+  /**
+   * Called after the service has been created. Return a different value to
+   * replace the instance, like a proxy wrapping it. The replacement is what
+   * gets cached and passed to dependents. Returning `undefined` keeps the
+   * original instance.
+   */
+  afterResolve?: (context: ResolveContext & { instance: any }) => unknown;
+  /** Called when the service's factory throws. The error is re-thrown afterwards. */
+  onError?: (context: ResolveContext & { error: unknown }) => void;
+};
+
+/**
+ * Information about a registered service, returned by
+ * {@link IocContainer#inspect}.
+ */
+export type ServiceInfo = {
+  /** The key the service was registered with. */
+  key: string;
+  lifetime: ServiceLifetime;
+  /**
+   * Whether an instance of the service is cached by the container. Transient
+   * services are never cached.
+   */
+  instantiated: boolean;
+  /**
+   * The scope level the service is registered on: `0` for the root container,
+   * `1` for a scope created from the root container, and so on.
+   */
+  depth: number;
+  /**
+   * Keys of the services read from the dependencies passed into the factory
+   * while the service was being constructed. Empty until the service has been
+   * instantiated.
+   */
+  dependencies: string[];
 };
 
 /**
@@ -120,12 +541,19 @@ export type IocContainer<TInstances extends Record<string, any>> = {
 export type IocScope<
   TDeps extends Record<string, any>,
   TInstances extends Record<string, any>,
+  TParent extends Record<string, any> | undefined = undefined,
 > = {
   /**
-   * Instantiate the scope with it's required dependencies.
+   * Instantiate the scope with it's required dependencies. Scopes created
+   * from another scope with {@link IocScope#scope} also require the
+   * container of the parent scope they should be created in.
    * @returns a {@link IocContainer} that can be used to access dependencies
    */
-  (deps: TDeps): IocContainer<TInstances>;
+  (
+    ...args: TParent extends Record<string, any>
+      ? [parent: IocContainer<TParent>, deps: TDeps]
+      : [deps: TDeps]
+  ): IocContainer<TInstances>;
 
   /**
    * Register services on the scope, same as registering services on a container.
@@ -133,7 +561,7 @@ export type IocScope<
    */
   register<
     TServiceName extends string,
-    TFactory extends Factory<TInstances, any>,
+    TFactory extends Factory<ProvidedDependencies<TInstances, TFactory>, any>,
   >(
     key: TServiceName,
     factory: TFactory,
@@ -146,9 +574,17 @@ export type IocScope<
         : key extends keyof TInstances
           ? TInstances[key]
           : never;
-    }
+    },
+    TParent
   >;
-  register<TNewFactories extends Record<string, Factory<TInstances, any>>>(
+  register<
+    TNewFactories extends {
+      [Key in keyof TNewFactories]: Factory<
+        ProvidedDependencies<TInstances, TNewFactories[Key]>,
+        any
+      >;
+    },
+  >(
     factories: TNewFactories,
   ): IocScope<
     TDeps,
@@ -161,10 +597,158 @@ export type IocScope<
         : key extends keyof TInstances
           ? TInstances[key]
           : never;
+    },
+    TParent
+  >;
+
+  /**
+   * Add a service to a collection each time the scope is created, same as
+   * adding to a collection on a container. When the parent container has a
+   * collection with the same key, the scope's collection contains the
+   * parent's instances first, followed by the scope's.
+   * @see {@link IocContainer#registerMany}
+   */
+  registerMany<
+    TServiceName extends string,
+    TFactory extends Factory<ProvidedDependencies<TInstances, TFactory>, any>,
+  >(
+    key: TServiceName,
+    factory: TFactory,
+  ): IocScope<
+    TDeps,
+    {
+      [key in keyof TInstances | TServiceName]: key extends TServiceName
+        ? Array<GetCollectionItem<TInstances, key> | GetInstance<TFactory>>
+        : key extends keyof TInstances
+          ? TInstances[key]
+          : never;
+    },
+    TParent
+  >;
+
+  /**
+   * Wrap a service each time the scope is created, same as decorating a
+   * service on a container. Services registered on the parent container can
+   * be decorated too: each scope gets its own decorated instance, and the
+   * parent's instance is left alone, including when the scope is disposed.
+   * @see {@link IocContainer#decorate}
+   */
+  decorate<Key extends keyof TInstances>(
+    key: Key,
+    decorator: Decorator<TInstances, TInstances[Key]>,
+    dispose?: (instance: TInstances[Key]) => void | Promise<void>,
+  ): IocScope<TDeps, TInstances, TParent>;
+
+  /**
+   * Define a scope nested inside this one, like a transaction scope inside a
+   * request scope. Nested scopes are created from a container of this scope,
+   * and can use all of its services. Creating one with any other container
+   * throws an error.
+   *
+   * @example
+   * ```ts
+   * const requestScope = container.scope<{ request: Request }>();
+   * const transactionScope = requestScope
+   *   .scope<{ tx: Transaction }>()
+   *   .register("userRepo", createUserRepo);
+   *
+   * const requestContainer = requestScope({ request });
+   * await db.transaction(async (tx) => {
+   *   const transactionContainer = transactionScope(requestContainer, { tx });
+   *   // ...
+   * });
+   * ```
+   *
+   * @param keys The keys of the nested scope's dependencies, validated when
+   * the scope is created, same as {@link IocContainer#scope}.
+   */
+  scope<TMoreDeps extends Record<string, any>>(
+    keys?: ScopeDependencyKeys<TMoreDeps>,
+  ): IocScope<
+    TMoreDeps,
+    {
+      [key in keyof TInstances | keyof TMoreDeps]: key extends keyof TMoreDeps
+        ? TMoreDeps[key]
+        : key extends keyof TInstances
+          ? TInstances[key]
+          : never;
+    },
+    TInstances
+  >;
+};
+
+/**
+ * A reusable bundle of registrations, created with {@link defineModule}, that
+ * can be installed into any container that provides the services it requires.
+ */
+export type IocModule<
+  TRequires extends Record<string, any>,
+  TProvides extends Record<string, any>,
+> = {
+  /**
+   * Register services on the module, same as registering services on a
+   * container. Services can depend on the module's required services and any
+   * services registered on the module before them.
+   * @see {@link IocContainer#register}
+   */
+  register<
+    TServiceName extends string,
+    TFactory extends Factory<
+      ProvidedDependencies<TRequires & TProvides, TFactory>,
+      any
+    >,
+  >(
+    key: TServiceName,
+    factory: TFactory,
+  ): IocModule<
+    TRequires,
+    {
+      [key in keyof TProvides | TServiceName]: key extends TServiceName
+        ? GetInstance<TFactory>
+        : key extends keyof TProvides
+          ? TProvides[key]
+          : never;
+    }
+  >;
+  register<
+    TNewFactories extends {
+      [Key in keyof TNewFactories]: Factory<
+        ProvidedDependencies<TRequires & TProvides, TNewFactories[Key]>,
+        any
+      >;
+    },
+  >(
+    factories: TNewFactories,
+  ): IocModule<
+    TRequires,
+    {
+      [key in
+        | keyof TProvides
+        | keyof TNewFactories]: key extends keyof TNewFactories
+        ? GetInstance<TNewFactories[key]>
+        : key extends keyof TProvides
+          ? TProvides[key]
+          : never;
     }
   >;
 };
 
+/**
+ * When a container doesn't have all the services a module requires, returns
+ * an object type listing the missing services so the error is readable.
+ */
+type MissingRequirements<TInstances, TRequires> = {
+  [Key in keyof TRequires]: Key extends keyof TInstances
+    ? TInstances[Key] extends TRequires[Key]
+      ? never
+      : Key
+    : Key;
+}[keyof TRequires] extends infer Missing
+  ? [Missing] extends [never]
+    ? unknown
+    : { missingServices: Missing }
+  : never;
+
 /**
  * Creates an empty {@link IocContainer} for registering and injecting dependencies.
  *
@@ -179,61 +763,833 @@ export function createIocContainer(): IocContainer<{}> {
   return createInternalIocContainer();
 }
 
-class Registrations {
-  proxy = new Proxy<Record<string, any>>(Object.create(null), {
-    get: (_, key: string) => {
-      const res = this.resolve(key);
-      if (!res) throw Error(`Service "${key}" not found`);
-      return res;
-    },
-  });
+/**
+ * Thrown when resolving a service that has not been registered. The `path`
+ * contains the chain of services that were being resolved when the missing
+ * service was requested, ending with the missing service.
+ */
+export class ServiceNotFoundError extends Error {
+  /** The key of the service that was not found. */
+  readonly key: string;
 
-  private factories: Record<string, Factory<any, any>> = Object.create(null);
-  private instanceCache: Record<string, any> = Object.create(null);
+  constructor(readonly path: string[]) {
+    const key = path[path.length - 1]!;
+    super(
+      path.length > 1
+        ? `Service "${key}" not found (${path.join(" -> ")})`
+        : `Service "${key}" not found`,
+    );
+    this.name = "ServiceNotFoundError";
+    this.key = key;
+  }
+}
+
+/**
+ * Thrown when a service depends on itself, directly or through other
+ * services. The `path` contains the chain of services that form the cycle,
+ * starting and ending with the same service.
+ */
+export class CircularDependencyError extends Error {
+  constructor(readonly path: string[]) {
+    super(`Circular dependency detected: ${path.join(" -> ")}`);
+    this.name = "CircularDependencyError";
+  }
+}
+
+/**
+ * Thrown by {@link IocContainer#validate} when one or more services fail to
+ * resolve. `failures` maps each service's key to the error it threw.
+ */
+export class ContainerValidationError extends AggregateError {
+  constructor(readonly failures: Record<string, unknown>) {
+    const keys = Object.keys(failures);
+    super(
+      Object.values(failures),
+      `Failed to resolve ${keys.length} service(s): ${keys.join(", ")}`,
+    );
+    this.name = "ContainerValidationError";
+  }
+}
+
+/**
+ * Thrown when a scope is created with dependencies that don't match the keys
+ * passed to {@link IocContainer#scope}. `missing` lists the declared
+ * dependencies that weren't passed in, and `unexpected` lists the ones that
+ * weren't declared.
+ */
+export class ScopeDependencyError extends Error {
+  constructor(
+    readonly missing: string[],
+    readonly unexpected: string[],
+  ) {
+    const problems: string[] = [];
+    if (missing.length > 0) {
+      problems.push(`missing ${missing.map((key) => `"${key}"`).join(", ")}`);
+    }
+    if (unexpected.length > 0) {
+      problems.push(
+        `unexpected ${unexpected.map((key) => `"${key}"`).join(", ")}`,
+      );
+    }
+    super(`Invalid scope dependencies: ${problems.join("; ")}`);
+    this.name = "ScopeDependencyError";
+  }
+}
 
-  constructor(private parent?: Registrations) {}
+/**
+ * Thrown when a service needs an async service that hasn't been resolved yet.
+ * `resolveAsync` catches it, resolves the async service, and creates the
+ * service again.
+ */
+class UnresolvedAsyncServiceError extends Error {
+  readonly key: string;
+
+  constructor(
+    readonly registrations: Registrations,
+    readonly path: string[],
+  ) {
+    const key = path[path.length - 1]!;
+    super(
+      `Service "${key}" is async and has not been resolved yet. Use "resolveAsync" or "resolveAllAsync" to resolve it.`,
+    );
+    this.key = key;
+  }
+}
+
+type CompiledScope = {
+  /** The version of the registrations the scope was compiled from. */
+  version: number;
+  /** The factories shared by every instance of the scope. */
+  factories: Record<string, Factory<any, any>>;
+  /** Scoped services registered on the scope and its parents. */
+  scopedFactories: Array<[string, Factory<any, any>]>;
+};
+
+class Registrations {
+  /**
+   * Every proxy shares the same handler, so creating a scope doesn't create
+   * new functions. Each proxy's target points back to its registrations.
+   */
+  private static proxyHandler: ProxyHandler<{
+    [REGISTRATIONS_SYMBOL]: Registrations;
+  }> = {
+    has: (target, key: string) => target[REGISTRATIONS_SYMBOL].has(key),
+    get: (target, key: string) =>
+      target[REGISTRATIONS_SYMBOL].getDependency(key),
+  };
+
+  proxy: Record<string | symbol, any> = new Proxy(
+    { [REGISTRATIONS_SYMBOL]: this },
+    Registrations.proxyHandler,
+  );
+
+  private factories: Record<string, Factory<any, any>> = Object.create(null);
+  /** Instances of lazy services are cached by their factory instead of a key. */
+  private instanceCache = new Map<string | Factory<any, any>, any>();
+  private pending = new Map<string, Promise<unknown>>();
+  private dependencies = new Map<string, Set<string>>();
+  private collections = new Map<string, Array<Factory<any, any>>>();
+  /** Keys of services registered with {@link scoped}, so scopes don't have to search for them. */
+  private scopedKeys = new Set<string>();
+  interceptors: ResolveInterceptor[] = [];
+  /** For instances of a scope, the registrations of the scope they were created from. */
+  template?: Registrations;
+  private compiled?: CompiledScope;
+  /** Incremented whenever a factory is added or replaced. */
+  private changes = 0;
+  /**
+   * Services currently being instantiated, shared with all parents and
+   * scopes. The same key can be instantiated by a scope and its parent at the
+   * same time when a scope decorates a parent's service, so each entry also
+   * stores which registrations own the service.
+   */
+  private stack: Array<[key: string, owner: Registrations]>;
+  /**
+   * While {@link validate} is running, the errors thrown by each
+   * registrations' services, shared with all parents and scopes. Services
+   * that failed throw the same error again instead of being created by each
+   * of their dependents.
+   */
+  private validation: {
+    failures?: Map<Registrations, Map<string, unknown>>;
+  };
+
+  /**
+   * @param parent Registrations to fall back to for services that aren't
+   * registered here.
+   * @param isScope Scopes can't shadow their parent's services, and their
+   * services are "scoped" instead of "singleton".
+   */
+  constructor(
+    private parent?: Registrations,
+    private isScope = false,
+  ) {
+    this.stack = parent?.stack ?? [];
+    this.validation = parent?.validation ?? {};
+  }
+
+  /** The number of parents above these registrations. */
+  get depth(): number {
+    return this.parent ? this.parent.depth + 1 : 0;
+  }
+
+  /** Get a dependency for a factory being instantiated by these registrations. */
+  private getDependency(key: string): unknown {
+    // Lets collection factories create their instances using the registrations they're resolved from
+    if ((key as string | symbol) === COLLECTION_SYMBOL) {
+      return (key: string) => this.collect(key);
+    }
+    // Lets decorated services get the parent's instance from the registrations they're resolved from
+    if ((key as string | symbol) === PARENT_SYMBOL) return this.parent;
+    // Lets lazy services be created and cached by the registrations they're resolved from
+    if ((key as string | symbol) === LAZY_SYMBOL) {
+      return (factory: Factory<any, any>) => this.createLazy(factory);
+    }
+
+    // Services can be falsy, so check if the key is registered instead of checking the value
+    if (!this.has(key)) {
+      throw new ServiceNotFoundError([...this.getResolutionPath(), key]);
+    }
+
+    // Record which services are read while a service is being constructed
+    const dependent = this.stack[this.stack.length - 1];
+    if (dependent?.[1] === this) {
+      let dependencies = this.dependencies.get(dependent[0]);
+      if (!dependencies)
+        this.dependencies.set(dependent[0], (dependencies = new Set()));
+      dependencies.add(key);
+    }
+
+    return this.resolve(key);
+  }
 
   has(key: string): boolean {
     return key in this.factories || (this.parent?.has(key) ?? false);
   }
 
   addFactory(key: string, factory: Factory<any, any>): void {
-    if (this.has(key)) throw Error(`Service "${key}" already registered`);
+    if (key in this.factories || (this.isScope && this.has(key))) {
+      throw Error(`Service "${key}" already registered`);
+    }
+    assertValidFactory(key, factory);
 
     this.factories[key] = factory;
+    if (SCOPED_SYMBOL in factory) this.scopedKeys.add(key);
+    this.changed();
   }
 
-  resolve(key: string): unknown | undefined {
-    // Look at the parent first
-    if (this.parent) {
-      const instance = this.parent.resolve(key);
-      if (instance) return instance;
+  addToCollection(key: string, factory: Factory<any, any>): void {
+    this.changed();
+    const elements = this.collections.get(key);
+    if (elements) {
+      if (this.instanceCache.has(key)) {
+        throw Error(`Service "${key}" has already been resolved`);
+      }
+      elements.push(factory);
+    } else {
+      const existing = this.getFactory(key);
+      if (existing && !(COLLECTION_SYMBOL in existing)) {
+        throw Error(`Service "${key}" already registered`);
+      }
+      this.collections.set(key, [factory]);
+
+      const collection = (deps: any) => deps[COLLECTION_SYMBOL](key);
+      collection[COLLECTION_SYMBOL] = true;
+      this.factories[key] = collection;
+    }
+
+    if (
+      ASYNC_SYMBOL in factory ||
+      (this.parent && ASYNC_SYMBOL in (this.parent.getFactory(key) ?? {}))
+    ) {
+      // @ts-expect-error: Marking the collection as async after it's been created
+      this.factories[key][ASYNC_SYMBOL] = true;
+    }
+  }
+
+  /**
+   * Create an instance from every factory in a collection, after the
+   * instances from the parent's collection.
+   */
+  private collect(key: string): unknown[] | Promise<unknown[]> {
+    const elements = this.collections.get(key)!;
+    const inherited = this.parent?.has(key);
+
+    if (ASYNC_SYMBOL in this.factories[key]!) {
+      return (async () => [
+        ...(inherited
+          ? ((await this.parent!.resolveAsync(key)) as unknown[])
+          : []),
+        ...(await Promise.all(
+          elements.map((factory) => instantiate(factory, this.proxy)),
+        )),
+      ])();
     }
+    return [
+      ...(inherited ? (this.parent!.resolve(key) as unknown[]) : []),
+      ...elements.map((factory) => instantiate(factory, this.proxy)),
+    ];
+  }
+
+  /** Replace the factory of a service in this or a parent registration. */
+  replaceFactory(key: string, factory: Factory<any, any>): void {
+    assertValidFactory(key, factory);
+    if (key in this.factories) {
+      this.factories[key] = factory;
+      if (SCOPED_SYMBOL in factory) this.scopedKeys.add(key);
+      else this.scopedKeys.delete(key);
+      this.changed();
+    } else if (this.parent?.has(key)) this.parent.replaceFactory(key, factory);
+    else throw new ServiceNotFoundError([key]);
+  }
 
-    // The look for factories and cached instances here
+  decorate(
+    key: string,
+    decorator: Decorator<any, any>,
+    dispose?: (instance: any) => void | Promise<void>,
+  ): void {
+    this.changed();
     const factory = this.factories[key];
-    if (!factory) return undefined;
+    if (factory) {
+      if (this.instanceCache.has(key)) {
+        throw Error(`Service "${key}" has already been resolved`);
+      }
+      this.factories[key] = decorateFactory(factory, decorator, dispose);
+      return;
+    }
 
-    if (TRANSIENT_SYMBOL in factory) return instantiate(factory, this.proxy);
+    const parent = this.parent;
+    const parentFactory = parent?.getFactory(key);
+    if (!parent || !parentFactory) throw new ServiceNotFoundError([key]);
+
+    // Scopes create their own instances of scoped services, so the scope's copy is decorated instead
+    if (SCOPED_SYMBOL in parentFactory) {
+      this.factories[key] = decorateFactory(parentFactory, decorator, dispose);
+      this.scopedKeys.add(key);
+      return;
+    }
 
-    return (this.instanceCache[key] ??= instantiate(factory, this.proxy));
+    // Decorate the parent's instance without changing the parent, so the
+    // decorated instance is owned by these registrations instead.
+    const inherited = (deps: any) => {
+      const parent: Registrations = deps[PARENT_SYMBOL];
+      return ASYNC_SYMBOL in parentFactory
+        ? parent.resolveAsync(key)
+        : parent.resolve(key);
+    };
+    for (const symbol of [ASYNC_SYMBOL, TRANSIENT_SYMBOL]) {
+      // @ts-expect-error: Copying symbol properties between functions
+      if (symbol in parentFactory) inherited[symbol] = true;
+    }
+    // The decorated instance wraps the parent's instance, which is disposed by the parent
+    this.factories[key] = decorateFactory(
+      inherited,
+      decorator,
+      dispose ?? (() => {}),
+    );
+  }
+
+  private getScopedFactories(): Array<[string, Factory<any, any>]> {
+    const inherited = this.template
+      ? this.template.compile().scopedFactories
+      : (this.parent?.getScopedFactories() ?? []);
+    return [
+      ...inherited,
+      ...Array.from(this.scopedKeys, (key): [string, Factory<any, any>] => [
+        key,
+        this.factories[key]!,
+      ]),
+    ];
+  }
+
+  /** Called whenever a factory is added or replaced. */
+  private changed(): void {
+    this.changes++;
+  }
+
+  /**
+   * The number of changes to these registrations and all their parents, so
+   * a scope template is only compiled again when its own chain changes.
+   */
+  private get version(): number {
+    return this.changes + (this.parent?.version ?? 0);
+  }
+
+  /**
+   * Compile these registrations into a scope template, so creating a scope
+   * doesn't depend on the number of services registered. The template is
+   * cached until these registrations or any of their parents change.
+   */
+  private compile(): CompiledScope {
+    const version = this.version;
+    if (this.compiled?.version === version) return this.compiled;
+
+    // Each scope creates its own instances of scoped services registered on its parents
+    const scopedFactories = this.parent?.getScopedFactories() ?? [];
+    const factories: Record<string, Factory<any, any>> = Object.create(null);
+    for (const [key, factory] of scopedFactories) factories[key] = factory;
+    for (const key in this.factories) factories[key] = this.factories[key]!;
+
+    this.compiled = {
+      version,
+      factories,
+      scopedFactories: [
+        ...scopedFactories,
+        ...Array.from(this.scopedKeys, (key): [string, Factory<any, any>] => [
+          key,
+          this.factories[key]!,
+        ]),
+      ],
+    };
+    return this.compiled;
+  }
+
+  /**
+   * Create the registrations for an instance of a scope, using these
+   * registrations as the scope's template. Services were already validated
+   * when they were registered on the template, so the instance shares the
+   * compiled factories instead of copying them.
+   */
+  instantiateScope(
+    parent: Registrations,
+    deps: Record<string, unknown>,
+  ): Registrations {
+    const { factories } = this.compile();
+    const registrations = new Registrations(parent, true);
+    registrations.template = this;
+    registrations.factories = Object.create(factories);
+
+    for (const key in deps) {
+      // Nested scopes also check the dependencies of every parent scope
+      if (key in factories || parent.has(key)) {
+        throw Error(`Service "${key}" already registered`);
+      }
+      registrations.factories[key] = value(deps[key]);
+    }
+    for (const [key, elements] of this.collections) {
+      registrations.collections.set(key, [...elements]);
+    }
+
+    return registrations;
+  }
+
+  /**
+   * Scoped services registered outside a scope can't be created until a
+   * scope is created.
+   */
+  private requiresScope(factory: Factory<any, any>): boolean {
+    return SCOPED_SYMBOL in factory && !this.isScope;
+  }
+
+  /**
+   * When a scoped service is resolved directly from a container, get the
+   * active scope created from it, if there is one. Services being created by
+   * the container can't use the active scope, since they would hold onto
+   * its instances.
+   */
+  private getAmbientScope(): Registrations | undefined {
+    if (this.stack.length > 0) return;
+
+    const container = getAmbientScope();
+    const scope = container && getRegistrations(container);
+    for (let current = scope; current; current = current.parent) {
+      if (current === this) return scope;
+    }
+  }
+
+  /**
+   * Create the function a lazy service's dependents receive. The first time
+   * it's called, the service is created and cached like any other service,
+   * after its own dependencies, so it's disposed before them.
+   */
+  private createLazy(factory: Factory<any, any>): Lazy<unknown> {
+    // The lazy service's key, which is being instantiated by these registrations
+    const [key] = this.stack[this.stack.length - 1] ?? ["lazy"];
+    return () => {
+      if (!this.instanceCache.has(factory)) {
+        this.instanceCache.set(factory, this.instantiate(key, factory));
+      }
+      return this.instanceCache.get(factory);
+    };
+  }
+
+  private getFactory(key: string): Factory<any, any> | undefined {
+    return this.factories[key] ?? this.parent?.getFactory(key);
+  }
+
+  /** Copy the registrations, including all parents, without any instances. */
+  fork(): Registrations {
+    const forked = new Registrations(this.parent?.fork(), this.isScope);
+    forked.template = this.template;
+    // Scope instances inherit their template's factories, so copy inherited keys too
+    for (const key in this.factories)
+      forked.factories[key] = this.factories[key]!;
+    for (const key of this.scopedKeys) forked.scopedKeys.add(key);
+    for (const [key, elements] of this.collections) {
+      forked.collections.set(key, [...elements]);
+    }
+    forked.interceptors.push(...this.interceptors);
+    return forked;
+  }
+
+  resolve(key: string): unknown | undefined {
+    // Look for factories and cached instances here first, since scopes can
+    // decorate services registered on their parent
+    const factory = this.factories[key];
+    if (!factory) return this.parent?.resolve(key);
+
+    if (this.requiresScope(factory)) {
+      const scope = this.getAmbientScope();
+      if (scope) return scope.resolve(key);
+    }
+
+    const instance = this.getInstance(key, factory);
+
+    const interceptors = this.getInterceptors();
+    if (interceptors.length > 0) {
+      const context = {
+        key,
+        lifetime: this.getLifetime(factory),
+        depth: this.depth,
+        instance,
+      };
+      for (const interceptor of interceptors) interceptor.onResolve?.(context);
+    }
+    return instance;
+  }
+
+  /** Get the cached instance of a service, or create it if there isn't one. */
+  private getInstance(key: string, factory: Factory<any, any>): unknown {
+    // Values are owned by the caller, so they're never cached or disposed
+    if (VALUE_SYMBOL in factory) return factory[VALUE_SYMBOL];
+
+    if (
+      ASYNC_SYMBOL in factory &&
+      !this.requiresScope(factory) &&
+      !this.instanceCache.has(key)
+    ) {
+      throw new UnresolvedAsyncServiceError(this, [
+        ...this.getResolutionPath(),
+        key,
+      ]);
+    }
+
+    if (TRANSIENT_SYMBOL in factory) return this.instantiate(key, factory);
+
+    if (!this.instanceCache.has(key)) {
+      this.instanceCache.set(key, this.instantiate(key, factory));
+    }
+    return this.instanceCache.get(key);
+  }
+
+  /**
+   * Call a factory, keeping track of the keys being instantiated so circular
+   * dependencies throw a {@link CircularDependencyError} instead of
+   * overflowing the stack.
+   */
+  private instantiate(key: string, factory: Factory<any, any>): any {
+    if (this.requiresScope(factory)) {
+      throw Error(
+        `Service "${key}" is scoped and can only be resolved from a scope`,
+      );
+    }
+    if (this.stack.some(([k, owner]) => k === key && owner === this)) {
+      throw new CircularDependencyError([...this.getResolutionPath(), key]);
+    }
+    const failures = this.validation.failures?.get(this);
+    if (failures?.has(key)) throw failures.get(key);
+
+    const interceptors = this.getInterceptors();
+    const context: ResolveContext = {
+      key,
+      lifetime: this.getLifetime(factory),
+      depth: this.depth,
+    };
+    for (const interceptor of interceptors)
+      interceptor.beforeResolve?.(context);
+
+    let instance: any;
+    this.stack.push([key, this]);
+    try {
+      instance = instantiate(factory, this.proxy);
+    } catch (error) {
+      // Services that need an unresolved async service are created again once it's resolved
+      if (!(error instanceof UnresolvedAsyncServiceError)) {
+        this.recordFailure(key, error);
+        for (const interceptor of interceptors) {
+          interceptor.onError?.({ ...context, error });
+        }
+      }
+      throw error;
+    } finally {
+      this.stack.pop();
+    }
+
+    if (interceptors.length === 0) return instance;
+
+    // Interceptors receive the resolved value of async services, not the promise
+    if (ASYNC_SYMBOL in factory) {
+      return Promise.resolve(instance).then(
+        (instance) => intercept(interceptors, context, instance),
+        (error) => {
+          if (!(error instanceof UnresolvedAsyncServiceError)) {
+            for (const interceptor of interceptors) {
+              interceptor.onError?.({ ...context, error });
+            }
+          }
+          throw error;
+        },
+      );
+    }
+    return intercept(interceptors, context, instance);
+  }
+
+  private recordFailure(key: string, error: unknown): void {
+    const failures = this.validation.failures;
+    if (!failures) return;
+
+    let owned = failures.get(this);
+    if (!owned) failures.set(this, (owned = new Map()));
+    owned.set(key, error);
+  }
+
+  private getResolutionPath(): string[] {
+    return this.stack.map(([key]) => key);
+  }
+
+  private getInterceptors(): ResolveInterceptor[] {
+    if (!this.parent) return this.interceptors;
+
+    // Scopes rarely add their own interceptors, so only copy the parent's when they do
+    const inherited = this.parent.getInterceptors();
+    return this.interceptors.length > 0
+      ? [...inherited, ...this.interceptors]
+      : inherited;
+  }
+
+  private getLifetime(factory: Factory<any, any>): ServiceLifetime {
+    if (VALUE_SYMBOL in factory) return "value";
+    if (TRANSIENT_SYMBOL in factory) return "transient";
+    if (SCOPED_SYMBOL in factory) return "scoped";
+    return this.isScope ? "scoped" : "singleton";
   }
 
   resolveAll(): Record<string, any> {
     const acc = this.parent?.resolveAll() ?? Object.create(null);
 
     for (const key in this.factories) {
+      if (this.requiresScope(this.factories[key]!)) continue;
       acc[key] = this.resolve(key);
     }
 
     return acc;
   }
+
+  async resolveAsync(key: string): Promise<unknown> {
+    if (!(key in this.factories) && this.parent) {
+      return this.parent.resolveAsync(key);
+    }
+
+    const factory = this.factories[key];
+    if (!factory) throw new ServiceNotFoundError([key]);
+
+    if (this.requiresScope(factory)) {
+      const scope = this.getAmbientScope();
+      if (scope) return scope.resolveAsync(key);
+    }
+
+    if (ASYNC_SYMBOL in factory && !this.requiresScope(factory)) {
+      await this.resolveAsyncSingleton(key, factory, []);
+    }
+    return this.resolveWithAsyncDependencies(() => this.resolve(key), []).catch(
+      (error) => {
+        // Also fails when an async dependency rejects, outside of instantiate
+        this.recordFailure(key, error);
+        throw error;
+      },
+    );
+  }
+
+  async resolveAllAsync(): Promise<Record<string, any>> {
+    const acc = (await this.parent?.resolveAllAsync()) ?? Object.create(null);
+
+    for (const key in this.factories) {
+      if (this.requiresScope(this.factories[key]!)) continue;
+      acc[key] = await this.resolveAsync(key);
+    }
+
+    return acc;
+  }
+
+  /**
+   * Call `resolve` until it stops throwing {@link UnresolvedAsyncServiceError},
+   * resolving each async service it needs before calling it again. A
+   * service's dependencies aren't known until its factory is called, so this
+   * only resolves the async services it actually depends on.
+   *
+   * @param path The async services waiting for `resolve`, so circular
+   * dependencies between them throw instead of waiting forever.
+   */
+  private async resolveWithAsyncDependencies<T>(
+    resolve: () => T,
+    path: Array<[key: string, owner: Registrations]>,
+  ): Promise<Awaited<T>> {
+    while (true) {
+      try {
+        return await resolve();
+      } catch (error) {
+        if (!(error instanceof UnresolvedAsyncServiceError)) throw error;
+
+        const { key, registrations } = error;
+        if (path.some(([k, owner]) => k === key && owner === registrations)) {
+          throw new CircularDependencyError([...path.map(([k]) => k), key]);
+        }
+        await registrations.resolveAsyncSingleton(
+          key,
+          registrations.factories[key]!,
+          path,
+        );
+      }
+    }
+  }
+
+  private resolveAsyncSingleton(
+    key: string,
+    factory: Factory<any, any>,
+    path: Array<[key: string, owner: Registrations]>,
+  ): Promise<unknown> {
+    if (this.instanceCache.has(key)) return Promise.resolve();
+
+    // Concurrent resolutions share the same promise so the factory is only called once
+    let promise = this.pending.get(key);
+    if (!promise) {
+      promise = this.resolveWithAsyncDependencies(
+        () => this.instantiate(key, factory),
+        [...path, [key, this]],
+      )
+        .then(
+          (instance) => {
+            this.instanceCache.set(key, instance);
+          },
+          (error) => {
+            this.recordFailure(key, error);
+            throw error;
+          },
+        )
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, promise);
+    }
+    return promise;
+  }
+
+  async validate(): Promise<Record<string, number>> {
+    const durations: Record<string, number> = Object.create(null);
+    const failures: Record<string, unknown> = Object.create(null);
+    // Another validation of the same registrations may already be running, so
+    // only the first one clears the failures once it's done
+    const isFirst = !this.validation.failures;
+    this.validation.failures ??= new Map();
+
+    try {
+      // Services are listed in registration order, so dependencies are resolved
+      // before their dependents and aren't included in the dependent's duration.
+      for (const { key, lifetime } of this.inspect()) {
+        if (lifetime !== "singleton" && lifetime !== "scoped") continue;
+        // Scoped services registered outside a scope can't be created yet
+        if (lifetime === "scoped" && !this.isScope) continue;
+
+        const start = performance.now();
+        try {
+          await this.resolveAsync(key);
+          durations[key] = performance.now() - start;
+        } catch (err) {
+          failures[key] = err;
+        }
+      }
+    } finally {
+      if (isFirst) this.validation.failures = undefined;
+    }
+
+    if (Object.keys(failures).length > 0) {
+      throw new ContainerValidationError(failures);
+    }
+    return durations;
+  }
+
+  inspect(): ServiceInfo[] {
+    // Scopes create their own instances of scoped services registered on their
+    // parents, so only the scope's copy is listed
+    const services = (this.parent?.inspect() ?? []).filter(
+      ({ key }) =>
+        !this.isScope ||
+        !(key in this.factories) ||
+        !(SCOPED_SYMBOL in this.parent!.getFactory(key)!),
+    );
+
+    for (const key in this.factories) {
+      const factory = this.factories[key]!;
+      services.push({
+        key,
+        lifetime: this.getLifetime(factory),
+        instantiated: VALUE_SYMBOL in factory || this.instanceCache.has(key),
+        depth: this.depth,
+        dependencies: Array.from(this.dependencies.get(key) ?? []),
+      });
+    }
+
+    return services;
+  }
+
+  async dispose(): Promise<void> {
+    // Maps iterate in insertion order, and dependencies finish instantiating
+    // before their dependents, so reversing the cache disposes dependents first.
+    const instances = Array.from(this.instanceCache).reverse();
+    this.instanceCache.clear();
+
+    const errors: unknown[] = [];
+    for (const [key, instance] of instances) {
+      if (typeof key !== "string") {
+        try {
+          await disposeInstance(instance, key);
+        } catch (err) {
+          errors.push(err);
+        }
+        continue;
+      }
+
+      const elements = this.collections.get(key);
+      if (elements && Array.isArray(instance)) {
+        // Only dispose the collection's instances created by these registrations, not the parent's
+        const owned = instance.slice(instance.length - elements.length);
+        for (let i = owned.length - 1; i >= 0; i--) {
+          try {
+            await disposeInstance(owned[i], elements[i]);
+          } catch (err) {
+            errors.push(err);
+          }
+        }
+        continue;
+      }
+
+      try {
+        await disposeInstance(instance, this.factories[key]);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    if (errors.length > 0) {
+      throw new AggregateError(errors, "Failed to dispose services");
+    }
+  }
 }
 
 function createInternalIocContainer(
   registrations = new Registrations(),
 ): IocContainer<{}> {
-  const container: IocContainer<Record<string, any>> = {
+  // @ts-expect-error: Symbol keys are assigned after the container is created
+  const container: IocContainer<Record<string, any>> & {
+    [REGISTRATIONS_SYMBOL]: Registrations;
+  } = {
     register(arg1: any, arg2?: any) {
       if (typeof arg1 === "string") {
         registrations.addFactory(arg1, arg2);
@@ -245,8 +1601,16 @@ function createInternalIocContainer(
       return container;
     },
 
-    resolve(key) {
-      return registrations.resolve(key);
+    resolve(key: string, variant?: string): any {
+      if (!registrations.has(key)) throw new ServiceNotFoundError([key]);
+      const instance = registrations.resolve(key) as any;
+      if (variant == null) return instance;
+
+      if (!instance?.[KEYED_SYMBOL])
+        throw Error(`Service "${key}" is not registered with "keyed"`);
+      if (!(variant in instance))
+        throw Error(`Service "${key}" does not have a "${variant}" variant`);
+      return instance[variant];
     },
 
     registrations: registrations.proxy,
@@ -255,45 +1619,217 @@ function createInternalIocContainer(
       return registrations.resolveAll();
     },
 
-    scope() {
-      return createIocScope(registrations);
+    resolveAsync(key) {
+      return registrations.resolveAsync(key);
+    },
+
+    resolveAllAsync() {
+      return registrations.resolveAllAsync();
+    },
+
+    fork() {
+      return createInternalIocContainer(registrations.fork());
+    },
+
+    override(key, factory) {
+      const forked = registrations.fork();
+      forked.replaceFactory(key as string, factory);
+      return createInternalIocContainer(forked);
+    },
+
+    scope(keys) {
+      return createIocScope(registrations, false, keys);
+    },
+
+    createChild() {
+      return createInternalIocContainer(new Registrations(registrations));
+    },
+
+    use(interceptor) {
+      registrations.interceptors.push(interceptor);
+      return container;
+    },
+
+    registerMany(key: string, factory: Factory<any, any>): any {
+      registrations.addToCollection(key, factory);
+      return container;
+    },
+
+    install(module) {
+      for (const step of moduleSteps.get(module)!) step(registrations);
+      return container as any;
+    },
+
+    registerIf(
+      condition: boolean,
+      key: string,
+      factory: Factory<any, any>,
+      fallback: Factory<any, any>,
+    ): any {
+      registrations.addFactory(key, condition ? factory : fallback);
+      return container;
+    },
+
+    decorate(key, decorator, dispose) {
+      registrations.decorate(key as string, decorator, dispose);
+      return container;
+    },
+
+    validate() {
+      return registrations.validate();
+    },
+
+    inspect() {
+      return registrations.inspect();
+    },
+
+    dispose() {
+      return registrations.dispose();
+    },
+  };
+  // Computed keys make creating the object literal several times slower
+  container[Symbol.asyncDispose] = () => registrations.dispose();
+  container[REGISTRATIONS_SYMBOL] = registrations;
+
+  return container;
+}
+
+/**
+ * Get the registrations of a container, so ambient and nested scopes can be
+ * resolved from the public container.
+ */
+function getRegistrations(container: unknown): Registrations | undefined {
+  return (container as any)?.[REGISTRATIONS_SYMBOL];
+}
+
+/**
+ * @param parent The registrations scopes are created from. For nested scopes,
+ * this is the parent scope's template, and the parent scope's container is
+ * passed in when the scope is created.
+ */
+function createIocScope(
+  parent: Registrations,
+  nested = false,
+  depKeys?: string[],
+): IocScope<any, any, any> {
+  // Services are validated and registered on a template once, then copied
+  // each time the scope is created
+  const template = new Registrations(parent, true);
+
+  // @ts-expect-error: Declaring a function with a named function property
+  const scope: IocScope<any, any, any> = (...args: any[]) => {
+    const [parentRegistrations, deps] = nested
+      ? [getRegistrations(args[0]), args[1]]
+      : [parent, args[0]];
+    // Nested scopes depend on the services of their parent scope
+    if (
+      !parentRegistrations ||
+      (nested && parentRegistrations.template !== parent)
+    ) {
+      throw Error(
+        "Nested scopes must be created with a container created from their parent scope",
+      );
+    }
+
+    if (depKeys) {
+      const missing = depKeys.filter((key) => !(key in (deps ?? {})));
+      const unexpected = Object.keys(deps ?? {}).filter(
+        (key) => !depKeys.includes(key),
+      );
+      if (missing.length > 0 || unexpected.length > 0) {
+        throw new ScopeDependencyError(missing, unexpected);
+      }
+    }
+
+    return createInternalIocContainer(
+      template.instantiateScope(parentRegistrations, deps),
+    );
+  };
+
+  // @ts-expect-error: Declaring a function with a named function property
+  scope.register = (arg1, arg2) => {
+    if (typeof arg1 === "string") {
+      template.addFactory(arg1, arg2);
+    } else {
+      for (const [key, factory] of Object.entries<Factory<any, any>>(arg1)) {
+        template.addFactory(key, factory);
+      }
+    }
+    return scope;
+  };
+
+  scope.registerMany = (key, factory) => {
+    template.addToCollection(key, factory);
+    return scope;
+  };
+
+  scope.decorate = (key, decorator, dispose) => {
+    template.decorate(key as string, decorator, dispose);
+    return scope;
+  };
+
+  scope.scope = (keys) => createIocScope(template, true, keys);
+
+  return scope;
+}
+
+/** The registrations each module replays when it's installed. */
+const moduleSteps = new WeakMap<
+  IocModule<any, any>,
+  Array<(registrations: Registrations) => void>
+>();
+
+/**
+ * Define a reusable bundle of registrations that can be shared between
+ * containers, like all the services for a single domain. Pass the services
+ * the module requires from the container as the type parameter, then install
+ * it with {@link IocContainer#install}.
+ *
+ * @example
+ * ```ts
+ * import { createIocContainer, defineModule } from '@aklinker1/zero-ioc';
+ *
+ * export const billingModule = defineModule<{ db: Database }>()
+ *   .register("invoiceRepo", createInvoiceRepo)
+ *   .register("billingService", BillingService);
+ *
+ * const container = createIocContainer()
+ *   .register("db", openDatabase)
+ *   .install(billingModule);
+ * ```
+ */
+export function defineModule<
+  TRequires extends Record<string, any> = {},
+>(): IocModule<TRequires, {}> {
+  const steps: Array<(registrations: Registrations) => void> = [];
+
+  const module: IocModule<any, any> = {
+    register(arg1: any, arg2?: any) {
+      if (typeof arg1 === "string") {
+        steps.push((registrations) => registrations.addFactory(arg1, arg2));
+      } else {
+        for (const [key, factory] of Object.entries<Factory<any, any>>(arg1)) {
+          steps.push((registrations) => registrations.addFactory(key, factory));
+        }
+      }
+      return module;
     },
   };
+  moduleSteps.set(module, steps);
 
-  return container;
+  return module;
 }
 
-function createIocScope<
-  TDeps extends Record<string, any>,
-  TInstances extends Record<string, any>,
->(parent: Registrations): IocScope<TDeps, TInstances> {
-  const factories: Array<[key: string, factory: Factory<any, any>]> = [];
-
-  // @ts-expect-error: Declaring a function with a named function property
-  const scope: IocScope<any, any> = (deps) => {
-    const registrations = new Registrations(parent);
-    for (const entry of Object.entries(deps)) {
-      registrations.addFactory(entry[0], () => entry[1]);
-    }
-    for (const [key, factory] of factories) {
-      registrations.addFactory(key, factory);
-    }
-    return createInternalIocContainer(registrations);
-  };
-
-  // @ts-expect-error: Declaring a function with a named function property
-  scope.register = (arg1, arg2) => {
-    if (typeof arg1 === "string") {
-      factories.push([arg1, arg2]);
-    } else {
-      for (const [key, factory] of Object.entries<Factory<any, any>>(arg1)) {
-        factories.push([key, factory]);
-      }
-    }
-    return scope;
-  };
-
-  return scope;
+/**
+ * Dependents of an async service receive the instance cached by
+ * `resolveAsync`, so async services can't be transient.
+ */
+function assertValidFactory(key: string, factory: Factory<any, any>): void {
+  if (ASYNC_SYMBOL in factory && TRANSIENT_SYMBOL in factory) {
+    throw Error(
+      `Service "${key}" can't be both async and transient. Register it without "awaited" so dependents receive a promise instead.`,
+    );
+  }
 }
 
 function instantiate<TFactory extends Factory<any, any>>(
@@ -307,6 +1843,88 @@ function instantiate<TFactory extends Factory<any, any>>(
       (factory as any)(deps);
 }
 
+function intercept(
+  interceptors: ResolveInterceptor[],
+  context: ResolveContext,
+  instance: any,
+): any {
+  for (const interceptor of interceptors) {
+    const replacement = interceptor.afterResolve?.({ ...context, instance });
+    if (replacement !== undefined) instance = replacement;
+  }
+  return instance;
+}
+
+function decorateFactory(
+  factory: Factory<any, any>,
+  decorator: Decorator<any, any>,
+  dispose?: (instance: any) => void | Promise<void>,
+): FactoryFunction<any, any> {
+  const decorated = (
+    ASYNC_SYMBOL in factory
+      ? async (deps: any) => decorator(await instantiate(factory, deps), deps)
+      : (deps: any) => decorator(instantiate(factory, deps), deps)
+  ) as FactoryFunction<any, any> & Record<symbol, unknown>;
+  for (const symbol of Object.getOwnPropertySymbols(factory)) {
+    // The decorated instance is created by the container, so it's no longer a value
+    if (symbol === VALUE_SYMBOL) continue;
+    // @ts-expect-error: Copying symbol properties between functions
+    decorated[symbol] = factory[symbol];
+  }
+  if (dispose) decorated[DISPOSER_SYMBOL] = dispose;
+  // Values are owned by the caller, so wrapping one doesn't make the container own it
+  else if (VALUE_SYMBOL in factory) decorated[DISPOSER_SYMBOL] = () => {};
+  return decorated;
+}
+
+async function disposeInstance(
+  instance: any,
+  factory: Factory<any, any> | undefined,
+): Promise<void> {
+  const disposer = (factory as any)?.[DISPOSER_SYMBOL];
+  if (disposer) return await disposer(instance);
+
+  if (instance == null) return;
+  if (typeof instance !== "object" && typeof instance !== "function") return;
+
+  if (typeof instance[Symbol.asyncDispose] === "function") {
+    await instance[Symbol.asyncDispose]();
+  } else if (typeof instance[Symbol.dispose] === "function") {
+    instance[Symbol.dispose]();
+  } else if (typeof instance.dispose === "function") {
+    await instance.dispose();
+  } else if (typeof instance.close === "function") {
+    await instance.close();
+  }
+}
+
+/**
+ * Wrap a factory in a lambda so helpers like {@link transient} can attach
+ * options to it without mutating the original function or class. Options
+ * added by previous helpers are copied over, so helpers can be combined.
+ */
+function wrapFactory(
+  factory: Factory<any, any>,
+  create: FactoryFunction<any, any> = (deps) => instantiate(factory, deps),
+): FactoryFunction<any, any> & Record<symbol, unknown> {
+  const wrapped = (deps: any) => create(deps);
+  for (const symbol of Object.getOwnPropertySymbols(factory)) {
+    // @ts-expect-error: Copying symbol properties between functions
+    wrapped[symbol] = factory[symbol];
+  }
+  return wrapped as FactoryFunction<any, any> & Record<symbol, unknown>;
+}
+
+/**
+ * A decorator wraps an instance of a service, returning an object that can be
+ * used in its place. It also receives the container's services as the second
+ * argument.
+ */
+export type Decorator<TInstances, TInstance> = (
+  instance: TInstance,
+  deps: TInstances,
+) => TInstance;
+
 /**
  * A factory is a function or class with dependencies.
  */
@@ -331,6 +1949,44 @@ export type FactoryFunction<TDeps, TInstance> = (deps: TDeps) => TInstance;
  */
 export type FactoryClass<TDeps, TInstance> = { new (deps: TDeps): TInstance };
 
+/**
+ * The dependencies a container can pass into a factory: the container's
+ * services, plus `undefined` for the optional dependencies listed with
+ * {@link optional} that haven't been registered. Other optional dependencies
+ * that haven't been registered are typed as {@link UnlistedOptionalDependency}
+ * so the factory is rejected, since the container would throw when they're
+ * accessed.
+ */
+export type ProvidedDependencies<TInstances, TFactory> = TInstances & {
+  [Key in Exclude<
+    GetOptionalDependencyKeys<TFactory>,
+    keyof TInstances
+  >]?: undefined;
+} & {
+  [Key in Exclude<
+    OptionalKeys<GetDependencies<TFactory>>,
+    keyof TInstances | GetOptionalDependencyKeys<TFactory>
+  >]: UnlistedOptionalDependency<Key>;
+};
+
+/**
+ * Passed in place of an optional dependency that hasn't been registered and
+ * wasn't listed with {@link optional}, so the error is readable.
+ */
+type UnlistedOptionalDependency<Key> = { unlistedOptionalDependency: Key };
+
+/** Given a factory wrapped with {@link optional}, return the keys it listed. */
+type GetOptionalDependencyKeys<TFactory> = TFactory extends {
+  readonly [OPTIONAL_SYMBOL]: ReadonlyArray<infer Key extends PropertyKey>;
+}
+  ? Key
+  : never;
+
+/** Given an object type, return the keys of its optional properties. */
+type OptionalKeys<T> = {
+  [Key in keyof T]-?: {} extends Pick<T, Key> ? Key : never;
+}[keyof T];
+
 /** Given a factory, return the dependencies it requires. */
 export type GetDependencies<TFactory> = TFactory extends (
   deps: infer Deps,
@@ -340,12 +1996,28 @@ export type GetDependencies<TFactory> = TFactory extends (
     ? Deps
     : never;
 
+/**
+ * Given a container's services, return the type of item in an existing
+ * collection, or `never` if there isn't one.
+ */
+type GetCollectionItem<TInstances, TKey> = TKey extends keyof TInstances
+  ? TInstances[TKey] extends Array<infer Item>
+    ? Item
+    : never
+  : never;
+
 /** Returns the map of names to service types for a container. */
 export type GetServices<T extends IocContainer<any>> =
   T extends IocContainer<infer S> ? S : never;
 
 /** Given a factory, return the instance it creates. */
-export type GetInstance<TFactory> = TFactory extends (
+export type GetInstance<TFactory> = TFactory extends {
+  readonly [ASYNC_SYMBOL]: true;
+}
+  ? Awaited<GetFactoryResult<TFactory>>
+  : GetFactoryResult<TFactory>;
+
+type GetFactoryResult<TFactory> = TFactory extends (
   ...args: any[]
 ) => infer Instance
   ? Instance
@@ -396,11 +2068,260 @@ export function parameterize<
         if (prop in target) return Reflect.get(target, prop, receiver);
         return deps[prop];
       },
+      has(target, prop) {
+        return prop in target || prop in deps;
+      },
     });
     return instantiate(factory, depsWithParameters);
   };
 }
 
+const OPTIONAL_SYMBOL: unique symbol = Symbol("zero-ioc/optional");
+
+/**
+ * Mark some of a factory's dependencies as optional. When an optional
+ * dependency hasn't been registered, the factory receives `undefined` instead
+ * of the container throwing a {@link ServiceNotFoundError}.
+ *
+ * Only keys that are optional in the factory's dependencies can be passed.
+ * Factories with optional dependencies that haven't been registered and
+ * aren't listed are rejected by `register`.
+ *
+ * @param factory The service factory or class to register.
+ * @param keys The keys of the optional dependencies.
+ * @returns the wrapped factory.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, optional } from '@aklinker1/zero-ioc';
+ *
+ * function createMailer(deps: { smtp?: SmtpClient }): Mailer {
+ *   // ...
+ * }
+ *
+ * const container = createIocContainer()
+ *   .register("mailer", optional(createMailer, "smtp"))
+ * ```
+ */
+export function optional<
+  T extends Factory<any, any>,
+  TKey extends OptionalKeys<GetDependencies<T>>,
+>(factory: T, ...keys: TKey[]): T & { readonly [OPTIONAL_SYMBOL]: TKey[] } {
+  const optionalKeys = new Set<string | symbol>(keys as string[]);
+  const optionalFactory = wrapFactory(factory, (deps) =>
+    instantiate(
+      factory,
+      new Proxy(deps, {
+        get(target, prop, receiver) {
+          if (optionalKeys.has(prop) && !(prop in target)) return undefined;
+          return Reflect.get(target, prop, receiver);
+        },
+      }),
+    ),
+  );
+  optionalFactory[OPTIONAL_SYMBOL] = keys;
+  return optionalFactory as any;
+}
+
+/**
+ * Register a function that creates a new instance of a service each time it's
+ * called, instead of the service itself. The listed keys are passed in by the
+ * caller, and the rest of the dependencies are resolved from the container.
+ *
+ * @param factory The service factory or class to create instances of.
+ * @param keys The keys of the dependencies passed in by the caller.
+ * @returns a factory that creates the function.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, asFactory } from '@aklinker1/zero-ioc';
+ *
+ * function createUserRepo(deps: { db: Database, tenantId: string }): UserRepo {
+ *   // ...
+ * }
+ *
+ * const container = createIocContainer()
+ *   .register("db", openDatabase)
+ *   .register("createUserRepo", asFactory(createUserRepo, "tenantId"))
+ *
+ * const createUserRepo = container.resolve("createUserRepo");
+ * const userRepo = createUserRepo({ tenantId: "..." });
+ * ```
+ */
+export function asFactory<
+  T extends Factory<any, any>,
+  TKey extends keyof GetDependencies<T>,
+>(
+  factory: T,
+  // Only used to infer which dependencies are arguments
+  ..._keys: TKey[]
+): FactoryFunction<
+  Omit<GetDependencies<T>, TKey>,
+  (args: Pick<GetDependencies<T>, TKey>) => GetFactoryResult<T>
+> {
+  return (deps) => (args) => instantiate(parameterize(factory, args), deps);
+}
+
+/**
+ * A function that creates a service the first time it's called, and returns
+ * the same instance on every call after that.
+ */
+export type Lazy<T> = () => T;
+
+/**
+ * Delay creating a service until it's actually used. Instead of the service,
+ * dependents receive a {@link Lazy} function that creates the service the
+ * first time it's called.
+ *
+ * The service is still a singleton, and its dependencies are resolved from
+ * the container or scope it was registered on. When the container is
+ * disposed, the service is disposed if it was created, before the services it
+ * depends on.
+ *
+ * Services registered with {@link awaited} can't be lazy, since the function
+ * can't wait for them. Pass the async factory directly instead, and the
+ * function will return a promise.
+ *
+ * @param factory The service factory or class to register.
+ * @returns a factory that creates a {@link Lazy} function.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, lazy, type Lazy } from '@aklinker1/zero-ioc';
+ *
+ * class ReportService {
+ *   constructor(private deps: { reportEngine: Lazy<ReportEngine> }) {}
+ *
+ *   generate() {
+ *     // The report engine is created the first time a report is generated
+ *     return this.deps.reportEngine().render();
+ *   }
+ * }
+ *
+ * const container = createIocContainer()
+ *   .register("reportEngine", lazy(createReportEngine))
+ *   .register("reportService", ReportService)
+ * ```
+ */
+export function lazy<T extends Factory<any, any>>(
+  factory: T & { readonly [ASYNC_SYMBOL]?: never },
+): FactoryFunction<GetDependencies<T>, Lazy<GetInstance<T>>> {
+  if (ASYNC_SYMBOL in factory) {
+    throw Error(
+      'Lazy services can\'t be async. Pass the factory without "awaited", and the lazy function will return a promise instead.',
+    );
+  }
+  // Wrapped so each lazy service is cached separately, even if they share a factory
+  const serviceFactory = wrapFactory(factory);
+  const lazyFactory = wrapFactory(factory, (deps) =>
+    deps[LAZY_SYMBOL](serviceFactory),
+  );
+  // The service is disposed by the registrations that created it, not with the function
+  lazyFactory[DISPOSER_SYMBOL] = () => {};
+  return lazyFactory;
+}
+
+/**
+ * A map of named variants of the same service, like multiple database
+ * connections.
+ */
+export type Keyed<TVariant extends string, TInstance> = {
+  readonly [Variant in TVariant]: TInstance;
+} & { readonly [KEYED_SYMBOL]: true };
+
+/**
+ * Register a family of named variants under a single key. Dependents receive
+ * an object containing each variant, and each variant is only created the
+ * first time it's accessed.
+ *
+ * The factory depends on every variant's dependencies. Each variant is
+ * created and cached by the container the service was resolved from, like a
+ * {@link lazy} service, so it's disposed before its dependencies.
+ *
+ * @param factories A map of variant names to service factories or classes.
+ * @returns a factory that creates the map of variants.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, keyed, parameterize, type Keyed } from '@aklinker1/zero-ioc';
+ *
+ * const container = createIocContainer()
+ *   .register("db", keyed({
+ *     primary: parameterize(openDatabase, { url: PRIMARY_URL }),
+ *     replica: parameterize(openDatabase, { url: REPLICA_URL }),
+ *   }))
+ *   .register("userRepo", (deps: { db: Keyed<"primary" | "replica", Database> }) => ...)
+ *
+ * const replica = container.resolve("db", "replica");
+ * ```
+ */
+export function keyed<TFactories extends Record<string, Factory<any, any>>>(
+  factories: TFactories,
+): FactoryFunction<
+  KeyedDependencies<TFactories>,
+  {
+    readonly [Variant in keyof TFactories]: GetInstance<TFactories[Variant]>;
+  } & { readonly [KEYED_SYMBOL]: true }
+> {
+  // Wrapped so each keyed service's variants are cached separately, even if they share a factory
+  const variantFactories = Object.entries(factories).map(
+    ([variant, factory]) => [variant, wrapFactory(factory)] as const,
+  );
+  const createVariants = (deps: any) => {
+    const variants: any = {};
+    Object.defineProperty(variants, KEYED_SYMBOL, { value: true });
+    for (const [variant, factory] of variantFactories) {
+      const create: Lazy<unknown> = deps[LAZY_SYMBOL](factory);
+      Object.defineProperty(variants, variant, {
+        enumerable: true,
+        get: create,
+      });
+    }
+    return variants;
+  };
+  // The variants are disposed by the registrations that created them, not with the map
+  return Object.assign(createVariants, { [DISPOSER_SYMBOL]: () => {} });
+}
+
+/**
+ * Every order the keys of a scope's dependencies can be listed in, so the
+ * list passed to {@link IocContainer#scope} can't leave any of them out.
+ */
+type ScopeDependencyKeys<TDeps> = string[] &
+  (string extends keyof TDeps ? unknown : Permutations<keyof TDeps & string>);
+
+type Permutations<TKey, TAll = TKey> = [TKey] extends [never]
+  ? []
+  : TKey extends unknown
+    ? [TKey, ...Permutations<Exclude<TAll, TKey>>]
+    : never;
+
+/** The keys of services registered with {@link keyed}. */
+type KeyedServiceKeys<TInstances> = {
+  [Key in keyof TInstances]: TInstances[Key] extends {
+    readonly [KEYED_SYMBOL]: true;
+  }
+    ? Key
+    : never;
+}[keyof TInstances];
+
+/**
+ * Given a map of factories, return the dependencies required by all of them.
+ */
+type KeyedDependencies<TFactories> = {
+  [Variant in keyof TFactories]: (
+    deps: unknown extends GetDependencies<TFactories[Variant]>
+      ? {}
+      : GetDependencies<TFactories[Variant]>,
+  ) => void;
+}[keyof TFactories] extends (deps: infer Deps) => void
+  ? Deps
+  : never;
+
 const TRANSIENT_SYMBOL = Symbol("zero-ioc/transient");
 
 /**
@@ -421,7 +2342,273 @@ const TRANSIENT_SYMBOL = Symbol("zero-ioc/transient");
  * ```
  */
 export function transient<T extends Factory<any, any>>(factory: T): T {
-  const transientFactory = (deps: any) => instantiate(factory, deps);
+  const transientFactory = wrapFactory(factory);
   transientFactory[TRANSIENT_SYMBOL] = true;
   return transientFactory as any as T;
 }
+
+const SCOPED_SYMBOL = Symbol("zero-ioc/scoped");
+
+/**
+ * Mark a service as scoped: when it's registered on a container, every
+ * instance of a scope creates and owns its own instance, instead of sharing a
+ * singleton with the container. Resolving the service from the container
+ * itself, or from a singleton, throws an error.
+ *
+ * @param factory The service factory or class to register.
+ * @returns the wrapped factory.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, scoped } from '@aklinker1/zero-ioc';
+ *
+ * const container = createIocContainer()
+ *   .register("db", openDatabase)
+ *   .register("unitOfWork", scoped(createUnitOfWork))
+ *
+ * const requestScope = container.scope<{ request: Request }>()
+ *
+ * const scope1 = requestScope({ request: request1 })
+ * const scope2 = requestScope({ request: request2 })
+ * scope1.resolve("unitOfWork") !== scope2.resolve("unitOfWork") // true
+ * ```
+ */
+export function scoped<T extends Factory<any, any>>(factory: T): T {
+  const scopedFactory = wrapFactory(factory);
+  scopedFactory[SCOPED_SYMBOL] = true;
+  return scopedFactory as any as T;
+}
+
+const VALUE_SYMBOL = Symbol("zero-ioc/value");
+const COLLECTION_SYMBOL = Symbol("zero-ioc/collection");
+const PARENT_SYMBOL = Symbol("zero-ioc/parent");
+const LAZY_SYMBOL = Symbol("zero-ioc/lazy");
+const KEYED_SYMBOL: unique symbol = Symbol("zero-ioc/keyed");
+const REGISTRATIONS_SYMBOL = Symbol("zero-ioc/registrations");
+
+/**
+ * Register a value as-is. Unlike other registrations, the container never
+ * calls or constructs the value, so functions and classes can be registered
+ * without being instantiated.
+ *
+ * Values are not owned by the container, so they are not disposed by
+ * {@link IocContainer#dispose}.
+ *
+ * @param instance The value to register.
+ * @returns a factory that always returns the value.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, value } from '@aklinker1/zero-ioc';
+ *
+ * const container = createIocContainer()
+ *   .register("config", value({ port: 3000 }))
+ *   .register("fetch", value(globalThis.fetch))
+ * ```
+ */
+export function value<T>(instance: T): () => T {
+  const valueFactory = () => instance;
+  valueFactory[VALUE_SYMBOL] = instance;
+  return valueFactory;
+}
+
+const DISPOSER_SYMBOL = Symbol("zero-ioc/disposer");
+
+/**
+ * Provide a custom function for disposing of a service when
+ * {@link IocContainer#dispose} is called. When set, the container will not
+ * look for a `dispose` or `close` method on the instance.
+ *
+ * @param factory The service factory or class to register.
+ * @param dispose Called with the instance when the container is disposed.
+ * @returns the wrapped factory.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createIocContainer, disposable } from '@aklinker1/zero-ioc';
+ * import { openDatabase } from './database';
+ *
+ * const container = createIocContainer()
+ *   .register("db", disposable(openDatabase, (db) => db.end()))
+ * ```
+ */
+export function disposable<T extends Factory<any, any>>(
+  factory: T,
+  dispose: (instance: GetInstance<T>) => void | Promise<void>,
+): T {
+  const disposableFactory = wrapFactory(factory);
+  disposableFactory[DISPOSER_SYMBOL] = dispose;
+  return disposableFactory as any as T;
+}
+
+const ASYNC_SYMBOL: unique symbol = Symbol("zero-ioc/async");
+
+/**
+ * Mark a factory that returns a promise as async. Dependents of an async
+ * service receive the resolved instance instead of a promise.
+ *
+ * Async services must be resolved with {@link IocContainer#resolveAsync} or
+ * {@link IocContainer#resolveAllAsync} before they, or any services that
+ * depend on them, can be resolved synchronously. Since dependents receive the
+ * cached instance, async services can't be {@link transient}.
+ *
+ * @param factory The async service factory to register.
+ * @returns the wrapped factory.
+ *
+ * @example
+ *
+ * ```ts
+ * import { awaited, createIocContainer } from '@aklinker1/zero-ioc';
+ *
+ * async function openDatabase(): Promise<Database> {
+ *   // ...
+ * }
+ * function createUserRepo({ db }: { db: Database }): UserRepo {
+ *   // ...
+ * }
+ *
+ * const container = createIocContainer()
+ *   .register("db", awaited(openDatabase))
+ *   .register("userRepo", createUserRepo)
+ *
+ * const userRepo = await container.resolveAsync("userRepo");
+ * ```
+ */
+export function awaited<T extends Factory<any, Promise<any>>>(
+  factory: T,
+): T & { readonly [ASYNC_SYMBOL]: true } {
+  const asyncFactory = wrapFactory(factory);
+  asyncFactory[ASYNC_SYMBOL] = true;
+  return asyncFactory as any;
+}
+
+/**
+ * Convert a container's services and dependencies into a
+ * [Graphviz](https://graphviz.org/) DOT graph. Each scope is drawn as a
+ * cluster, and each lifetime is drawn with a different style:
+ * singletons are boxes, scoped services are rounded boxes, transient services
+ * are dashed boxes, and values are notes.
+ *
+ * Dependencies are recorded as services are constructed, so resolve the
+ * services you're interested in before exporting the graph.
+ *
+ * @example
+ * ```ts
+ * container.resolveAll();
+ * await Bun.write("container.dot", toDot(container));
+ * ```
+ */
+export function toDot(container: IocContainer<any>): string {
+  const services = container.inspect();
+  const ids = getGraphIds(services);
+  const lines = ["digraph {"];
+
+  for (const [depth, scopeServices] of groupByDepth(services)) {
+    lines.push(`  subgraph cluster_${depth} {`);
+    lines.push(`    label=${dotString(getScopeLabel(depth))};`);
+    for (const service of scopeServices) {
+      lines.push(
+        `    ${ids.get(service)} [label=${dotString(service.key)}, ${DOT_STYLES[service.lifetime]}];`,
+      );
+    }
+    lines.push("  }");
+  }
+  for (const [from, to] of getGraphEdges(services, ids)) {
+    lines.push(`  ${from} -> ${to};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Convert a container's services and dependencies into a
+ * [Mermaid](https://mermaid.js.org/) flowchart. Each scope is drawn as a
+ * subgraph, and each lifetime is drawn with a different shape:
+ * singletons are rectangles, scoped services are rounded rectangles,
+ * transient services are stadiums, and values are parallelograms.
+ *
+ * Dependencies are recorded as services are constructed, so resolve the
+ * services you're interested in before exporting the graph.
+ *
+ * @example
+ * ```ts
+ * container.resolveAll();
+ * await Bun.write("container.mmd", toMermaid(container));
+ * ```
+ */
+export function toMermaid(container: IocContainer<any>): string {
+  const services = container.inspect();
+  const ids = getGraphIds(services);
+  const lines = ["flowchart TD"];
+
+  for (const [depth, scopeServices] of groupByDepth(services)) {
+    lines.push(`  subgraph scope_${depth} ["${getScopeLabel(depth)}"]`);
+    for (const service of scopeServices) {
+      const [open, close] = MERMAID_SHAPES[service.lifetime];
+      const label = service.key.replaceAll('"', "#quot;");
+      lines.push(`    ${ids.get(service)}${open}"${label}"${close}`);
+    }
+    lines.push("  end");
+  }
+  for (const [from, to] of getGraphEdges(services, ids)) {
+    lines.push(`  ${from} --> ${to}`);
+  }
+
+  return lines.join("\n");
+}
+
+const DOT_STYLES: Record<ServiceLifetime, string> = {
+  singleton: "shape=box",
+  scoped: 'shape=box, style="rounded"',
+  transient: 'shape=box, style="dashed"',
+  value: "shape=note",
+};
+
+const MERMAID_SHAPES: Record<ServiceLifetime, [open: string, close: string]> = {
+  singleton: ["[", "]"],
+  scoped: ["(", ")"],
+  transient: ["([", "])"],
+  value: ["[/", "/]"],
+};
+
+/** Keys can contain any character, so nodes are given generated IDs instead. */
+function getGraphIds(services: ServiceInfo[]): Map<ServiceInfo, string> {
+  return new Map(services.map((service, i) => [service, `s${i}`]));
+}
+
+function getGraphEdges(
+  services: ServiceInfo[],
+  ids: Map<ServiceInfo, string>,
+): Array<[from: string, to: string]> {
+  const idsByKey = new Map(
+    services.map((service) => [service.key, ids.get(service)!]),
+  );
+  return services.flatMap((service) =>
+    service.dependencies.map((dependency): [string, string] => [
+      ids.get(service)!,
+      idsByKey.get(dependency)!,
+    ]),
+  );
+}
+
+function groupByDepth(services: ServiceInfo[]): Map<number, ServiceInfo[]> {
+  const groups = new Map<number, ServiceInfo[]>();
+  for (const service of services) {
+    let group = groups.get(service.depth);
+    if (!group) groups.set(service.depth, (group = []));
+    group.push(service);
+  }
+  return groups;
+}
+
+function getScopeLabel(depth: number): string {
+  return depth === 0 ? "Container" : `Scope ${depth}`;
+}
+
+function dotString(str: string): string {
+  return `"${str.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}